@@ -0,0 +1,40 @@
+import { Request, Response, Router } from "express";
+import { artifactStore } from "./store";
+
+export const artifactsRouter = Router();
+
+artifactsRouter.get("/", (req: Request, res: Response) => {
+  try {
+    const owners = artifactStore.listOwners().map((ownerId) => ({
+      ownerId,
+      artifacts: artifactStore.list(ownerId),
+    }));
+    res.json({ owners });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+artifactsRouter.get("/:ownerId", (req: Request, res: Response) => {
+  const { ownerId } = req.params;
+  const artifacts = artifactStore.list(ownerId);
+  if (artifacts.length === 0) {
+    return res.status(404).json({ error: `No artifacts for "${ownerId}"` });
+  }
+  res.json({ ownerId, artifacts });
+});
+
+artifactsRouter.get("/:ownerId/:file", (req: Request, res: Response) => {
+  const { ownerId, file } = req.params;
+  if (!artifactStore.exists(ownerId, file)) {
+    return res.status(404).json({ error: `Artifact "${file}" for "${ownerId}" not found` });
+  }
+
+  res.download(artifactStore.filePath(ownerId, file), file, (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: `Artifact "${file}" for "${ownerId}" not found` });
+    }
+  });
+});
@@ -0,0 +1,95 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ArtifactInfo } from "../types";
+
+// Owners are session and run IDs; both patterns also keep paths inside the
+// artifacts directory
+const OWNER_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+const FILE_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*$/;
+
+class ArtifactStore {
+  get directory(): string {
+    return process.env.ARTIFACTS_DIR || path.join(__dirname, "../../artifacts");
+  }
+
+  isValidOwnerId(ownerId: string): boolean {
+    return typeof ownerId === "string" && OWNER_ID_PATTERN.test(ownerId);
+  }
+
+  isValidFileName(name: string): boolean {
+    return typeof name === "string" && FILE_NAME_PATTERN.test(name);
+  }
+
+  exists(ownerId: string, name: string): boolean {
+    return (
+      this.isValidOwnerId(ownerId) &&
+      this.isValidFileName(name) &&
+      fs.existsSync(this.filePath(ownerId, name))
+    );
+  }
+
+  filePath(ownerId: string, name: string): string {
+    return path.join(this.directory, ownerId, name);
+  }
+
+  // Returns a path for a new artifact, creating the owner's directory
+  reservePath(ownerId: string, name: string): string {
+    if (!this.isValidOwnerId(ownerId)) {
+      throw new Error(`Invalid artifact owner "${ownerId}"`);
+    }
+    if (!this.isValidFileName(name)) {
+      throw new Error(`Invalid artifact name "${name}"`);
+    }
+    fs.mkdirSync(path.join(this.directory, ownerId), { recursive: true });
+    return this.filePath(ownerId, name);
+  }
+
+  // e.g. trace-2024-06-01T12-00-00-000Z.zip
+  timestampedName(prefix: string, extension: string): string {
+    return `${prefix}-${new Date().toISOString().replace(/[:.]/g, "-")}.${extension}`;
+  }
+
+  describe(ownerId: string, name: string): ArtifactInfo {
+    const stats = fs.statSync(this.filePath(ownerId, name));
+    return {
+      ownerId,
+      name,
+      size: stats.size,
+      createdAt: stats.mtime.toISOString(),
+      url: `/artifacts/${ownerId}/${name}`,
+    };
+  }
+
+  list(ownerId: string): ArtifactInfo[] {
+    const directory = path.join(this.directory, ownerId);
+    if (!this.isValidOwnerId(ownerId) || !fs.existsSync(directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(directory)
+      .filter((name) => this.isValidFileName(name))
+      .sort()
+      .map((name) => this.describe(ownerId, name));
+  }
+
+  delete(ownerId: string, name: string): boolean {
+    if (!this.exists(ownerId, name)) {
+      return false;
+    }
+    fs.unlinkSync(this.filePath(ownerId, name));
+    return true;
+  }
+
+  listOwners(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.directory)
+      .filter((name) => this.isValidOwnerId(name))
+      .sort()
+      .reverse();
+  }
+}
+
+export const artifactStore = new ArtifactStore();
@@ -0,0 +1,185 @@
+import { Request, Response, Router } from "express";
+import { v4 as uuidv4 } from "uuid";
+import {
+  JSON_RPC_ERRORS,
+  SUPPORTED_PROTOCOL_VERSIONS,
+  mcpProtocol,
+} from "./protocol";
+import { JsonRpcResponse, McpSession } from "../types";
+
+const SESSION_HEADER = "mcp-session-id";
+const PROTOCOL_VERSION_HEADER = "mcp-protocol-version";
+
+const allowedOrigins = (process.env.MCP_ALLOWED_ORIGINS || "")
+  .split(",")
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+// Browsers send Origin on cross-site requests; rejecting unknown origins
+// protects a locally running server from DNS rebinding.
+function isOriginAllowed(origin: string | undefined): boolean {
+  if (!origin) {
+    return true;
+  }
+  if (allowedOrigins.includes("*") || allowedOrigins.includes(origin)) {
+    return true;
+  }
+  try {
+    const { hostname } = new URL(origin);
+    return ["localhost", "127.0.0.1", "[::1]"].includes(hostname);
+  } catch {
+    return false;
+  }
+}
+
+function rpcError(res: Response, status: number, code: number, message: string) {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    id: null,
+    error: { code, message },
+  });
+}
+
+function checkCommonHeaders(req: Request, res: Response): boolean {
+  if (!isOriginAllowed(req.headers.origin)) {
+    rpcError(res, 403, JSON_RPC_ERRORS.INVALID_REQUEST, "Origin not allowed");
+    return false;
+  }
+
+  const protocolVersion = req.header(PROTOCOL_VERSION_HEADER);
+  if (protocolVersion && !SUPPORTED_PROTOCOL_VERSIONS.includes(protocolVersion)) {
+    rpcError(
+      res,
+      400,
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      `Unsupported protocol version: ${protocolVersion}`
+    );
+    return false;
+  }
+
+  return true;
+}
+
+function resolveSession(req: Request, res: Response): McpSession | undefined {
+  const sessionId = req.header(SESSION_HEADER);
+  if (!sessionId) {
+    rpcError(
+      res,
+      400,
+      JSON_RPC_ERRORS.INVALID_REQUEST,
+      "Missing Mcp-Session-Id header"
+    );
+    return undefined;
+  }
+
+  const session = mcpProtocol.getSession(sessionId);
+  if (!session) {
+    rpcError(res, 404, JSON_RPC_ERRORS.INVALID_REQUEST, "Session not found");
+    return undefined;
+  }
+
+  return session;
+}
+
+export const mcpRouter = Router();
+
+mcpRouter.post("/", async (req: Request, res: Response) => {
+  try {
+    if (!checkCommonHeaders(req, res)) {
+      return;
+    }
+
+    const accept = req.header("accept");
+    if (
+      accept &&
+      !/application\/json|text\/event-stream|\*\/\*/.test(accept)
+    ) {
+      return rpcError(
+        res,
+        406,
+        JSON_RPC_ERRORS.INVALID_REQUEST,
+        "Client must accept application/json"
+      );
+    }
+
+    const body = req.body;
+    const isBatch = Array.isArray(body);
+    const messages: any[] = isBatch ? body : [body];
+
+    if (messages.length === 0) {
+      return rpcError(res, 400, JSON_RPC_ERRORS.INVALID_REQUEST, "Empty batch");
+    }
+
+    let session: McpSession | undefined;
+    let isNewSession = false;
+
+    if (messages.some((message) => mcpProtocol.isInitializeRequest(message))) {
+      if (messages.length > 1) {
+        return rpcError(
+          res,
+          400,
+          JSON_RPC_ERRORS.INVALID_REQUEST,
+          "initialize must not be part of a batch"
+        );
+      }
+      session = mcpProtocol.createSession(uuidv4());
+      isNewSession = true;
+    } else {
+      session = resolveSession(req, res);
+      if (!session) {
+        return;
+      }
+    }
+
+    const responses: JsonRpcResponse[] = [];
+    for (const message of messages) {
+      const response = await mcpProtocol.handleMessage(message, session);
+      if (response) {
+        responses.push(response);
+      }
+    }
+
+    if (isNewSession) {
+      if (responses[0]?.error) {
+        return res.status(200).json(responses[0]);
+      }
+      mcpProtocol.registerSession(session);
+      mcpProtocol.expireWhenIdle(session);
+      res.setHeader("Mcp-Session-Id", session.id);
+      console.log(`[MCP-HTTP] Session ${session.id} created`);
+    }
+
+    if (responses.length === 0) {
+      // Only notifications or client responses were posted.
+      return res.status(202).end();
+    }
+
+    res.json(isBatch ? responses : responses[0]);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error(`[MCP-HTTP] ERROR: ${errorMessage}`);
+    rpcError(res, 500, JSON_RPC_ERRORS.INTERNAL_ERROR, errorMessage);
+  }
+});
+
+// We never push server-initiated messages, so no standalone SSE stream.
+mcpRouter.get("/", (req: Request, res: Response) => {
+  res.setHeader("Allow", "POST, DELETE");
+  rpcError(res, 405, JSON_RPC_ERRORS.INVALID_REQUEST, "Method not allowed");
+});
+
+mcpRouter.delete("/", async (req: Request, res: Response) => {
+  if (!checkCommonHeaders(req, res)) {
+    return;
+  }
+
+  const session = resolveSession(req, res);
+  if (!session) {
+    return;
+  }
+
+  await mcpProtocol.closeSession(session.id);
+  console.log(`[MCP-HTTP] Session ${session.id} terminated by client`);
+  res.status(204).end();
+});
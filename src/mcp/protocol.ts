@@ -0,0 +1,311 @@
+import { browserManager } from "../playwright/browser";
+import { toolRegistry } from "./registry";
+import { toolExecutor } from "./tools";
+import {
+  JsonRpcError,
+  JsonRpcId,
+  JsonRpcResponse,
+  McpSession,
+  ToolCallResponse,
+} from "../types";
+
+export const SUPPORTED_PROTOCOL_VERSIONS = [
+  "2025-06-18",
+  "2025-03-26",
+  "2024-11-05",
+];
+export const LATEST_PROTOCOL_VERSION = SUPPORTED_PROTOCOL_VERSIONS[0];
+
+export const JSON_RPC_ERRORS = {
+  PARSE_ERROR: -32700,
+  INVALID_REQUEST: -32600,
+  METHOD_NOT_FOUND: -32601,
+  INVALID_PARAMS: -32602,
+  INTERNAL_ERROR: -32603,
+};
+
+export const SERVER_INFO = {
+  name: "playwright-mcp-http",
+  version: "1.0.0",
+};
+
+class RpcError extends Error {
+  constructor(public code: number, message: string, public data?: any) {
+    super(message);
+  }
+}
+
+export class McpProtocolHandler {
+  private sessions: Map<string, McpSession> = new Map();
+  // Clients may go away without ending their session; it is closed, with
+  // its browser, after this long without a message
+  private idleTimeout = Number(process.env.MCP_SESSION_IDLE_TIMEOUT) || 30 * 60 * 1000;
+
+  createSession(id: string): McpSession {
+    return {
+      id,
+      protocolVersion: LATEST_PROTOCOL_VERSION,
+      initialized: false,
+      createdAt: Date.now(),
+      lastActivityAt: Date.now(),
+    };
+  }
+
+  registerSession(session: McpSession): void {
+    this.sessions.set(session.id, session);
+  }
+
+  getSession(id: string): McpSession | undefined {
+    return this.sessions.get(id);
+  }
+
+  // Also closes the browser session the MCP session was using
+  async closeSession(id: string): Promise<boolean> {
+    const session = this.sessions.get(id);
+    if (!session) {
+      return false;
+    }
+    this.sessions.delete(id);
+
+    const browserSessionId = session.browserSessionId;
+    if (browserSessionId && browserManager.getSession(browserSessionId)) {
+      try {
+        await browserManager.closeSession(browserSessionId);
+      } catch (error) {
+        console.error(`[MCP-RPC] Error closing browser session ${browserSessionId}:`, error);
+      }
+    }
+    return true;
+  }
+
+  expireWhenIdle(session: McpSession, delay: number = this.idleTimeout): void {
+    const timer = setTimeout(async () => {
+      if (this.sessions.get(session.id) !== session) {
+        return;
+      }
+      const idle = Date.now() - session.lastActivityAt;
+      if (idle < this.idleTimeout) {
+        this.expireWhenIdle(session, this.idleTimeout - idle);
+        return;
+      }
+      console.log(`[MCP-RPC] Session ${session.id} was idle for ${Math.round(idle / 1000)}s, closing it`);
+      await this.closeSession(session.id);
+    }, delay);
+    // An idle check is no reason to keep the process running
+    timer.unref();
+  }
+
+  getSessionCount(): number {
+    return this.sessions.size;
+  }
+
+  isRequest(message: any): boolean {
+    return (
+      message !== null &&
+      typeof message === "object" &&
+      typeof message.method === "string" &&
+      "id" in message
+    );
+  }
+
+  isInitializeRequest(message: any): boolean {
+    return this.isRequest(message) && message.method === "initialize";
+  }
+
+  // Returns null for notifications and for responses sent by the client,
+  // which never get a reply.
+  async handleMessage(
+    message: any,
+    session: McpSession
+  ): Promise<JsonRpcResponse | null> {
+    if (
+      message === null ||
+      typeof message !== "object" ||
+      Array.isArray(message) ||
+      message.jsonrpc !== "2.0"
+    ) {
+      return this.errorResponse(null, {
+        code: JSON_RPC_ERRORS.INVALID_REQUEST,
+        message: "Invalid JSON-RPC 2.0 message",
+      });
+    }
+
+    if (typeof message.method !== "string") {
+      // A response to a server-initiated request; we never send any.
+      return null;
+    }
+
+    session.lastActivityAt = Date.now();
+    const isNotification = !("id" in message);
+    const id: JsonRpcId = isNotification ? null : message.id;
+
+    try {
+      const result = await this.dispatch(
+        message.method,
+        message.params || {},
+        session
+      );
+      if (isNotification) {
+        return null;
+      }
+      return { jsonrpc: "2.0", id, result };
+    } catch (error) {
+      if (isNotification) {
+        console.error(
+          `[MCP-RPC] Error handling notification ${message.method}:`,
+          error
+        );
+        return null;
+      }
+      if (error instanceof RpcError) {
+        return this.errorResponse(id, {
+          code: error.code,
+          message: error.message,
+          data: error.data,
+        });
+      }
+      const errorMessage =
+        error instanceof Error ? error.message : String(error);
+      return this.errorResponse(id, {
+        code: JSON_RPC_ERRORS.INTERNAL_ERROR,
+        message: errorMessage,
+      });
+    }
+  }
+
+  errorResponse(id: JsonRpcId, error: JsonRpcError): JsonRpcResponse {
+    return { jsonrpc: "2.0", id, error };
+  }
+
+  private async dispatch(
+    method: string,
+    params: Record<string, any>,
+    session: McpSession
+  ): Promise<any> {
+    switch (method) {
+      case "initialize":
+        return this.handleInitialize(params, session);
+      case "notifications/initialized":
+        session.initialized = true;
+        return undefined;
+      case "notifications/cancelled":
+        console.log(
+          `[MCP-RPC] Client cancelled request ${params.requestId}: ${params.reason || "no reason given"}`
+        );
+        return undefined;
+      case "ping":
+        return {};
+      case "tools/list":
+        return { tools: toolRegistry.getAllTools() };
+      case "tools/call":
+        return this.handleToolCall(params, session);
+      default:
+        if (method.startsWith("notifications/")) {
+          return undefined;
+        }
+        throw new RpcError(
+          JSON_RPC_ERRORS.METHOD_NOT_FOUND,
+          `Method not found: ${method}`
+        );
+    }
+  }
+
+  private handleInitialize(
+    params: Record<string, any>,
+    session: McpSession
+  ): Record<string, any> {
+    const requestedVersion = params.protocolVersion;
+    if (typeof requestedVersion !== "string") {
+      throw new RpcError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        "Missing required parameter: protocolVersion"
+      );
+    }
+
+    session.protocolVersion = SUPPORTED_PROTOCOL_VERSIONS.includes(
+      requestedVersion
+    )
+      ? requestedVersion
+      : LATEST_PROTOCOL_VERSION;
+    session.clientInfo = params.clientInfo;
+
+    console.log(
+      `[MCP-RPC] Initialize from ${params.clientInfo?.name || "unknown client"} (protocol ${session.protocolVersion})`
+    );
+
+    return {
+      protocolVersion: session.protocolVersion,
+      capabilities: {
+        tools: { listChanged: false },
+      },
+      serverInfo: SERVER_INFO,
+      instructions:
+        "Browser automation with Playwright. Call open_page first; later tools act on the same browser session.",
+    };
+  }
+
+  private async handleToolCall(
+    params: Record<string, any>,
+    session: McpSession
+  ): Promise<Record<string, any>> {
+    const toolName = params.name;
+    if (typeof toolName !== "string") {
+      throw new RpcError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        "Missing required parameter: name"
+      );
+    }
+    if (!toolRegistry.isValidTool(toolName)) {
+      throw new RpcError(
+        JSON_RPC_ERRORS.INVALID_PARAMS,
+        `Unknown tool: ${toolName}`
+      );
+    }
+
+    const startTime = Date.now();
+    const response = await toolExecutor.execute({
+      tool: toolName,
+      arguments: params.arguments || {},
+      // A new MCP session gets a browser session of its own, instead of
+      // taking over the one some other client used last
+      sessionId: session.browserSessionId ?? `mcp_${session.id}`,
+    });
+    session.browserSessionId = response.sessionId;
+
+    console.log(
+      `[MCP-RPC] tools/call ${toolName} ${response.success ? "succeeded" : "failed"} (${Date.now() - startTime}ms)`
+    );
+
+    return this.toToolResult(response);
+  }
+
+  private toToolResult(response: ToolCallResponse): Record<string, any> {
+    if (!response.success) {
+      const content = [{ type: "text", text: response.error || "Unknown error" }];
+      if (response.data !== undefined) {
+        content.push({ type: "text", text: JSON.stringify(response.data, null, 2) });
+      }
+      return { content, isError: true };
+    }
+
+    const content: Record<string, any>[] = [];
+    let data = response.data;
+
+    // Screenshots are far more useful to a client as image content than as
+    // a base64 string buried in JSON.
+    if (data && typeof data.screenshot === "string") {
+      const { screenshot, ...rest } = data;
+      content.push({ type: "image", data: screenshot, mimeType: "image/png" });
+      data = rest;
+    }
+
+    content.unshift({
+      type: "text",
+      text: JSON.stringify(data ?? null, null, 2),
+    });
+
+    return { content, isError: false };
+  }
+}
+
+export const mcpProtocol = new McpProtocolHandler();
@@ -48,13 +48,15 @@ class ToolRegistry {
 
     for (const [key, value] of Object.entries(input)) {
       if (key in properties) {
+        // A property may allow several types, e.g. ["object", "array"]
         const expectedType = properties[key].type;
+        const allowedTypes: string[] = Array.isArray(expectedType) ? expectedType : [expectedType];
         const actualType = Array.isArray(value) ? "array" : typeof value;
 
-        if (expectedType !== actualType && value !== null) {
+        if (!allowedTypes.includes(actualType) && value !== null) {
           return {
             valid: false,
-            error: `Parameter "${key}" must be of type "${expectedType}", got "${actualType}"`,
+            error: `Parameter "${key}" must be of type "${allowedTypes.join('" or "')}", got "${actualType}"`,
           };
         }
       }
@@ -1,6 +1,84 @@
+import { isEvaluateEnabled } from "../playwright/evaluate";
 import { MCPTool } from "../types";
+import { workflowStore } from "../workflows/store";
+
+function availableWorkflows(): string {
+  const names = workflowStore.listNames();
+  return names.length > 0 ? names.map((name) => `'${name}'`).join(", ") : "none";
+}
 
 export const toolSchemas: Record<string, MCPTool> = {
+  create_session: {
+    name: "create_session",
+    description: "Start a new browser session with the given context settings and return its session ID for later calls. Every setting is optional.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        browser: {
+          type: "string",
+          description: "Browser engine: 'chromium', 'firefox' or 'webkit' (default: the device's engine, then the server's BROWSER_ENGINE, or chromium)",
+        },
+        headless: {
+          type: "boolean",
+          description: "Run the browser without a window (default: the server's HEADLESS setting)",
+        },
+        recordVideo: {
+          type: "boolean",
+          description: "Record a video of the session, saved as an artifact when the session closes",
+        },
+        captureBodies: {
+          type: "boolean",
+          description: "Keep text request and response bodies (up to 64 KB each) in the network log and HAR exports (default: false)",
+        },
+        device: {
+          type: "string",
+          description: "Playwright device to emulate, e.g. 'iPhone 13' or 'Pixel 7'. Sets viewport, user agent, touch and scale factor; other settings here override it.",
+        },
+        viewport: {
+          type: "object",
+          description: "Viewport size in pixels, e.g. { \"width\": 1280, \"height\": 720 }",
+        },
+        userAgent: {
+          type: "string",
+          description: "User agent string",
+        },
+        locale: {
+          type: "string",
+          description: "Locale such as 'en-GB', used for navigator.language and Accept-Language",
+        },
+        timezone: {
+          type: "string",
+          description: "IANA time zone such as 'Europe/Berlin'",
+        },
+        geolocation: {
+          type: "object",
+          description: "Position reported to the page: { \"latitude\": 52.52, \"longitude\": 13.4, \"accuracy\": 10 }. Also grant the 'geolocation' permission.",
+        },
+        permissions: {
+          type: "array",
+          items: { type: "string" },
+          description: "Permissions granted to every origin, e.g. ['geolocation', 'notifications']",
+        },
+        colorScheme: {
+          type: "string",
+          description: "Preferred color scheme: 'light', 'dark' or 'no-preference'",
+        },
+        httpCredentials: {
+          type: "object",
+          description: "Credentials for HTTP authentication: { \"username\": \"...\", \"password\": \"...\" }",
+        },
+        profile: {
+          type: "string",
+          description: "Saved profile to start from, so the session is already logged in (see save_profile)",
+        },
+        proxy: {
+          type: "object",
+          description: "Proxy for all requests: { \"server\": \"http://proxy:3128\", \"bypass\": \".internal\", \"username\": \"...\", \"password\": \"...\" }",
+        },
+      },
+      required: [],
+    },
+  },
   open_page: {
     name: "open_page",
     description: "Open a URL in a browser and navigate to it",
@@ -11,13 +89,25 @@ export const toolSchemas: Record<string, MCPTool> = {
           type: "string",
           description: "The URL to navigate to",
         },
+        recordVideo: {
+          type: "boolean",
+          description: "Record a video of the session, saved as an artifact when the session closes. Only applies when this call creates the session.",
+        },
+        browser: {
+          type: "string",
+          description: "Browser engine for a new session: 'chromium', 'firefox' or 'webkit' (default: the server's BROWSER_ENGINE, or chromium)",
+        },
+        headless: {
+          type: "boolean",
+          description: "Run a new session's browser without a window (default: the server's HEADLESS setting)",
+        },
       },
       required: ["url"],
     },
   },
   click: {
     name: "click",
-    description: "Click on an element matching the selector",
+    description: "Click on an element matching the selector, or the element with the given snapshot ref",
     inputSchema: {
       type: "object",
       properties: {
@@ -25,8 +115,12 @@ export const toolSchemas: Record<string, MCPTool> = {
           type: "string",
           description: "CSS selector of the element to click",
         },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
       },
-      required: ["selector"],
+      required: [],
     },
   },
   fill: {
@@ -39,12 +133,16 @@ export const toolSchemas: Record<string, MCPTool> = {
           type: "string",
           description: "CSS selector of the input element",
         },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
         text: {
           type: "string",
           description: "Text to fill in the input",
         },
       },
-      required: ["selector", "text"],
+      required: ["text"],
     },
   },
   focus: {
@@ -57,8 +155,12 @@ export const toolSchemas: Record<string, MCPTool> = {
           type: "string",
           description: "CSS selector of the element to focus",
         },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
       },
-      required: ["selector"],
+      required: [],
     },
   },
   type: {
@@ -71,6 +173,10 @@ export const toolSchemas: Record<string, MCPTool> = {
           type: "string",
           description: "CSS selector of the element to type into",
         },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
         text: {
           type: "string",
           description: "Text to type",
@@ -80,7 +186,181 @@ export const toolSchemas: Record<string, MCPTool> = {
           description: "Delay in milliseconds between keystrokes (default: 0)",
         },
       },
-      required: ["selector", "text"],
+      required: ["text"],
+    },
+  },
+  press: {
+    name: "press",
+    description: "Press a key or key combination, e.g. 'Enter', 'Escape' or 'Control+A', on an element or wherever the focus is",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to press the key on (default: the focused element)",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+        key: {
+          type: "string",
+          description: "Key name or combination, e.g. 'Enter', 'ArrowDown', 'Shift+Tab' or 'Control+A'",
+        },
+      },
+      required: ["key"],
+    },
+  },
+  hover: {
+    name: "hover",
+    description: "Move the mouse over an element, e.g. to open a menu or show a tooltip",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to hover",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+      },
+      required: [],
+    },
+  },
+  select_option: {
+    name: "select_option",
+    description: "Select options of a <select> element by value or by visible label",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the <select> element",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+        values: {
+          type: ["string", "array"],
+          items: { type: "string" },
+          description: "Option value, or values for a multiple select",
+        },
+        labels: {
+          type: ["string", "array"],
+          items: { type: "string" },
+          description: "Visible option text, or texts for a multiple select, instead of values",
+        },
+      },
+      required: [],
+    },
+  },
+  check: {
+    name: "check",
+    description: "Check a checkbox or radio button (no change if it is already checked)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the checkbox or radio button",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+      },
+      required: [],
+    },
+  },
+  uncheck: {
+    name: "uncheck",
+    description: "Uncheck a checkbox (no change if it is already unchecked)",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the checkbox",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+      },
+      required: [],
+    },
+  },
+  drag_and_drop: {
+    name: "drag_and_drop",
+    description: "Drag one element onto another",
+    inputSchema: {
+      type: "object",
+      properties: {
+        source: {
+          type: "string",
+          description: "CSS selector of the element to drag",
+        },
+        sourceRef: {
+          type: "string",
+          description: "Snapshot ref of the element to drag, instead of source",
+        },
+        target: {
+          type: "string",
+          description: "CSS selector of the element to drop onto",
+        },
+        targetRef: {
+          type: "string",
+          description: "Snapshot ref of the element to drop onto, instead of target",
+        },
+      },
+      required: [],
+    },
+  },
+  scroll_into_view: {
+    name: "scroll_into_view",
+    description: "Scroll the page until an element is visible",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to scroll to",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+      },
+      required: [],
+    },
+  },
+  mouse_click: {
+    name: "mouse_click",
+    description: "Click at coordinates in the page, e.g. on a canvas. Coordinates are CSS pixels from the top left of the viewport.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        x: {
+          type: "number",
+          description: "Horizontal position in CSS pixels",
+        },
+        y: {
+          type: "number",
+          description: "Vertical position in CSS pixels",
+        },
+        button: {
+          type: "string",
+          description: "'left', 'right' or 'middle' (default: left)",
+        },
+        clickCount: {
+          type: "number",
+          description: "2 for a double click (default: 1)",
+        },
+      },
+      required: ["x", "y"],
     },
   },
   wait_for_selector: {
@@ -147,22 +427,625 @@ export const toolSchemas: Record<string, MCPTool> = {
   },
   close_browser: {
     name: "close_browser",
-    description: "Close the browser and end the session",
+    description: "Close the browser and end the session. Returns the trace and videos saved on close, if any.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+  },
+  list_tabs: {
+    name: "list_tabs",
+    description: "List the session's open tabs, popups included, with their IDs, URLs and titles. Other tools act on the active tab.",
+    inputSchema: {
+      type: "object",
+      properties: {},
+      required: [],
+    },
+  },
+  new_tab: {
+    name: "new_tab",
+    description: "Open a new tab in the session, optionally at a URL, and make it the active tab",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "The URL to navigate the new tab to",
+        },
+      },
+      required: [],
+    },
+  },
+  switch_tab: {
+    name: "switch_tab",
+    description: "Make another tab the active tab, by its ID from list_tabs",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Tab ID, e.g. 't2'",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  close_tab: {
+    name: "close_tab",
+    description: "Close a tab, by default the active one. The tab that opened it, or else the newest remaining tab, becomes active. The last tab cannot be closed.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Tab ID, e.g. 't2' (default: the active tab)",
+        },
+      },
+      required: [],
+    },
+  },
+  wait_for_popup: {
+    name: "wait_for_popup",
+    description: "Click an element that opens a popup or new tab (e.g. an OAuth login window) and wait for it. The popup becomes the active tab.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to click",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+        timeout: {
+          type: "number",
+          description: "Milliseconds to wait for the popup (default: 30000)",
+        },
+        activate: {
+          type: "boolean",
+          description: "Make the popup the active tab (default: true)",
+        },
+      },
+      required: [],
+    },
+  },
+  upload_file: {
+    name: "upload_file",
+    description: "Set the files of a file input. Each file is either a path in the server's uploads directory or base64 content with a name; an empty list clears the input.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the <input type=\"file\"> element",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+        files: {
+          type: "array",
+          items: { type: "object" },
+          description: "Files as { path } relative to the uploads directory, or { name, base64, mimeType? }",
+        },
+      },
+      required: ["files"],
+    },
+  },
+  download: {
+    name: "download",
+    description: "Click an element that starts a download and save the file as an artifact. Returns its name, size, SHA-256 checksum and download URL.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to click",
+        },
+        ref: {
+          type: "string",
+          description: "Element ref from the latest snapshot (e.g. 'e12'), instead of selector",
+        },
+        name: {
+          type: "string",
+          description: "Artifact file name (default: the name the site suggests)",
+        },
+        timeout: {
+          type: "number",
+          description: "Milliseconds to wait for the download to start (default: 30000)",
+        },
+      },
+      required: [],
+    },
+  },
+  set_dialog_policy: {
+    name: "set_dialog_policy",
+    description: "Choose how the session answers alert, confirm, prompt and beforeunload dialogs (default: dismiss). Set it before the action that opens the dialog.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        action: {
+          type: "string",
+          description: "'accept' (OK, or leave the page for beforeunload) or 'dismiss' (Cancel)",
+        },
+        promptText: {
+          type: "string",
+          description: "Text to answer prompt dialogs with when accepting",
+        },
+        once: {
+          type: "boolean",
+          description: "Only apply to the next dialog, then go back to the current policy",
+        },
+      },
+      required: ["action"],
+    },
+  },
+  get_dialogs: {
+    name: "get_dialogs",
+    description: "List the dialogs the session's pages opened, with their type, message and how they were answered, oldest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        clear: {
+          type: "boolean",
+          description: "Empty the list after reading it",
+        },
+      },
+      required: [],
+    },
+  },
+  get_text: {
+    name: "get_text",
+    description: "Get the rendered text of the page, or of the first element matching a selector",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to read (default: the whole page)",
+        },
+      },
+      required: [],
+    },
+  },
+  get_html: {
+    name: "get_html",
+    description: "Get the HTML of the page, or of the first element matching a selector",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the element to read (default: the whole page)",
+        },
+        outer: {
+          type: "boolean",
+          description: "Include the element's own tag (default: true); false returns its inner HTML",
+        },
+      },
+      required: [],
+    },
+  },
+  query_all: {
+    name: "query_all",
+    description: "List all elements matching a selector, with the chosen attributes of each",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the elements to list",
+        },
+        attributes: {
+          type: "array",
+          items: { type: "string" },
+          description: "What to read from each element: attribute names such as 'href' or 'id', or 'text', 'html' and 'value' (default: ['text'])",
+        },
+        limit: {
+          type: "integer",
+          minimum: 1,
+          description: "Maximum number of elements to return (default: 100)",
+        },
+      },
+      required: ["selector"],
+    },
+  },
+  extract_table: {
+    name: "extract_table",
+    description: "Convert an HTML table into an array of row objects keyed by the column headers",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "CSS selector of the <table> element",
+        },
+      },
+      required: ["selector"],
+    },
+  },
+  evaluate: {
+    name: "evaluate",
+    // Getter, so the description reflects whether the server allows it
+    get description() {
+      const status = isEvaluateEnabled()
+        ? "Enabled on this server."
+        : "Disabled on this server; start it with ENABLE_EVALUATE=true to allow it.";
+      return `Run JavaScript in the page and return its JSON-serializable result. The script is the body of an async function with 'args' in scope, e.g. "return document.querySelectorAll(args.selector).length". ${status}`;
+    },
+    inputSchema: {
+      type: "object",
+      properties: {
+        script: {
+          type: "string",
+          description: "Function body to run in the page; use 'return' to hand back a value",
+        },
+        args: {
+          type: "object",
+          description: "JSON values available to the script as 'args'",
+        },
+        timeout: {
+          type: "number",
+          description: "Milliseconds to wait for the script (default: 5000, max: 60000). A page that does not finish in time is reloaded.",
+        },
+      },
+      required: ["script"],
+    },
+  },
+  snapshot: {
+    name: "snapshot",
+    description: "Get a compact accessibility tree of the page: roles, names and states. Interactive elements carry a ref (e.g. [ref=e12]) that click, fill, type and focus accept instead of a selector. An element keeps its ref across snapshots.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        selector: {
+          type: "string",
+          description: "Only snapshot the part of the page under this CSS selector",
+        },
+        interactiveOnly: {
+          type: "boolean",
+          description: "List only the elements with a ref, without headings, text and structure (default: false)",
+        },
+      },
+      required: [],
+    },
+  },
+  get_network_log: {
+    name: "get_network_log",
+    description: "List the session's requests with method, URL, status, duration and headers (and bodies, if the session captures them), oldest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "Only requests whose URL contains this text",
+        },
+        urlRegex: {
+          type: "string",
+          description: "Only requests whose URL matches this regular expression",
+        },
+        method: {
+          type: "string",
+          description: "Only requests with this HTTP method, e.g. 'POST'",
+        },
+        status: {
+          type: "number",
+          description: "Only responses with this status code",
+        },
+        failed: {
+          type: "boolean",
+          description: "Only network errors and 4xx/5xx responses",
+        },
+        resourceTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only these resource types, e.g. ['xhr', 'fetch']",
+        },
+        sinceId: {
+          type: "number",
+          description: "Only entries with a higher ID, to fetch what is new since the last call",
+        },
+        limit: {
+          type: "number",
+          description: "Return at most this many of the most recent matching entries (default: 100)",
+        },
+        clear: {
+          type: "boolean",
+          description: "Empty the log after reading it",
+        },
+      },
+      required: [],
+    },
+  },
+  get_console_logs: {
+    name: "get_console_logs",
+    description: "List the session's console messages, uncaught page errors (type 'pageerror') and failed requests (type 'requestfailed'), oldest first",
+    inputSchema: {
+      type: "object",
+      properties: {
+        types: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only these types, e.g. ['error', 'pageerror']; console types include log, info, warning, error and debug",
+        },
+        sinceId: {
+          type: "number",
+          description: "Only entries with a higher ID, to fetch what is new since the last call",
+        },
+        limit: {
+          type: "number",
+          description: "Return at most this many of the most recent matching entries (default: 100)",
+        },
+        clear: {
+          type: "boolean",
+          description: "Empty the log after reading it",
+        },
+      },
+      required: [],
+    },
+  },
+  export_har: {
+    name: "export_har",
+    description: "Save the session's network log as a HAR file artifact, optionally filtered. Responses include bodies when the session was created with captureBodies.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "File name, e.g. 'login.har' (default: network-<timestamp>.har)",
+        },
+        url: {
+          type: "string",
+          description: "Only requests whose URL contains this text",
+        },
+        urlRegex: {
+          type: "string",
+          description: "Only requests whose URL matches this regular expression",
+        },
+        method: {
+          type: "string",
+          description: "Only requests with this HTTP method, e.g. 'POST'",
+        },
+        status: {
+          type: "number",
+          description: "Only responses with this status code",
+        },
+        failed: {
+          type: "boolean",
+          description: "Only network errors and 4xx/5xx responses",
+        },
+        resourceTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only these resource types, e.g. ['xhr', 'fetch']",
+        },
+      },
+      required: [],
+    },
+  },
+  wait_for_response: {
+    name: "wait_for_response",
+    description: "Wait for the next network response matching the URL and method, and optionally check its status code. Start waiting before triggering the request, or use lookback.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "Text the response URL contains",
+        },
+        urlRegex: {
+          type: "string",
+          description: "Regular expression the response URL matches, instead of url",
+        },
+        method: {
+          type: "string",
+          description: "HTTP method of the request, e.g. 'POST'",
+        },
+        status: {
+          type: "number",
+          description: "Expected status code; any other status fails the call",
+        },
+        timeout: {
+          type: "number",
+          description: "Maximum time to wait in milliseconds (default: 30000)",
+        },
+        lookback: {
+          type: "number",
+          description: "Also accept a matching response that completed up to this many milliseconds before the call (default: 0)",
+        },
+      },
+      required: [],
+    },
+  },
+  add_route: {
+    name: "add_route",
+    description: "Mock or block network requests of the session: answer matching requests with a canned response (fulfill), fail them (abort), hold them back (delay), or replay them from a HAR file. The most recently added matching rule wins. Returns the rule with its ID.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        url: {
+          type: "string",
+          description: "URL glob, e.g. '**/api/projects*' or '**/*.woff2' (default: every request)",
+        },
+        urlRegex: {
+          type: "string",
+          description: "Regular expression matched against the URL, instead of url",
+        },
+        resourceTypes: {
+          type: "array",
+          items: { type: "string" },
+          description: "Only match these resource types, e.g. ['font', 'image'] (document, stylesheet, image, media, font, script, xhr, fetch, ...)",
+        },
+        action: {
+          type: "string",
+          description: "'fulfill', 'abort' or 'delay' (wait, then let the request through). Omit when using har.",
+        },
+        status: {
+          type: "number",
+          description: "fulfill: HTTP status (default: 200)",
+        },
+        headers: {
+          type: "object",
+          description: "fulfill: response headers",
+        },
+        contentType: {
+          type: "string",
+          description: "fulfill: Content-Type of the body",
+        },
+        body: {
+          type: "string",
+          description: "fulfill: response body",
+        },
+        json: {
+          type: ["object", "array"],
+          description: "fulfill: JSON response body, instead of body",
+        },
+        errorCode: {
+          type: "string",
+          description: "abort: network error, e.g. 'blockedbyclient', 'timedout', 'connectionrefused' (default: 'failed')",
+        },
+        delay: {
+          type: "number",
+          description: "Milliseconds to hold matching requests before acting on them (required for 'delay')",
+        },
+        har: {
+          type: "string",
+          description: "HAR file in the server's mocks directory to answer matching requests from, instead of an action",
+        },
+        notFound: {
+          type: "string",
+          description: "har: what to do with requests missing from the HAR, 'abort' (default) or 'fallback' to the network",
+        },
+      },
+      required: [],
+    },
+  },
+  list_routes: {
+    name: "list_routes",
+    description: "List the session's network mocking rules with how many requests each has handled",
     inputSchema: {
       type: "object",
       properties: {},
       required: [],
     },
   },
+  remove_route: {
+    name: "remove_route",
+    description: "Remove a network mocking rule by ID, or all rules when no ID is given",
+    inputSchema: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Rule ID from add_route or list_routes, e.g. 'r2'",
+        },
+      },
+      required: [],
+    },
+  },
+  save_profile: {
+    name: "save_profile",
+    description: "Save the session's cookies and localStorage as a named profile, e.g. after logging in. New sessions created with that profile start logged in. Replaces an existing profile of the same name.",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "Profile name (letters, digits, '-' and '_'), e.g. 'bim-user'",
+        },
+      },
+      required: ["name"],
+    },
+  },
+  start_tracing: {
+    name: "start_tracing",
+    description: "Start recording a Playwright trace of the session, with screenshots and DOM snapshots of every action",
+    inputSchema: {
+      type: "object",
+      properties: {
+        screenshots: {
+          type: "boolean",
+          description: "Capture screenshots during tracing (default: true)",
+        },
+        snapshots: {
+          type: "boolean",
+          description: "Capture DOM snapshots for every action (default: true)",
+        },
+        title: {
+          type: "string",
+          description: "Title shown in the trace viewer",
+        },
+      },
+      required: [],
+    },
+  },
+  stop_tracing: {
+    name: "stop_tracing",
+    description: "Stop tracing and save the trace as a zip artifact. Open it with `npx playwright show-trace <file>`",
+    inputSchema: {
+      type: "object",
+      properties: {
+        name: {
+          type: "string",
+          description: "File name for the trace, e.g. 'login.zip' (default: trace-<timestamp>.zip)",
+        },
+      },
+      required: [],
+    },
+  },
   execute_workflow: {
     name: "execute_workflow",
-    description: "Execute a predefined workflow from a file. Available workflows: 'bim-login-only' (login to BIM Gateway and screenshot), 'bim-login-and-create' (login and create a project). Workflows are located in the workflows/ directory.",
+    // Getters, so the list reflects the workflows/ directory at request time
+    get description() {
+      const summaries = workflowStore
+        .list()
+        .map((w) => {
+          const details = [
+            w.description,
+            w.parameters?.length ? `params: ${w.parameters.join(", ")}` : undefined,
+          ].filter(Boolean);
+          return details.length > 0 ? `'${w.name}' (${details.join("; ")})` : `'${w.name}'`;
+        });
+      return `Execute a predefined workflow from a file. Available workflows: ${summaries.join(", ") || "none"}. Workflows are located in the workflows/ directory.`;
+    },
     inputSchema: {
       type: "object",
       properties: {
         workflow: {
           type: "string",
-          description: "Name of the workflow to execute (without .json extension). Available: 'bim-login-only', 'bim-login-and-create'",
+          get description() {
+            return `Name of the workflow to execute (without .json extension). Available: ${availableWorkflows()}`;
+          },
+        },
+        params: {
+          type: "object",
+          description: "Values for the parameters the workflow declares, e.g. { \"projectName\": \"Demo\" }. Omitted parameters use their defaults.",
+        },
+        trace: {
+          type: "string",
+          description: "Record a Playwright trace of the run: 'on', 'off' or 'retain-on-failure' (keep it only when the run does not pass). Defaults to the workflow's own 'trace' setting, or 'off'.",
+        },
+        video: {
+          type: "string",
+          description: "Record a video of the run: 'on', 'off' or 'retain-on-failure'. Defaults to the workflow's own 'video' setting, or 'off'. A recorded run closes its browser session when it ends.",
+        },
+        har: {
+          type: "string",
+          description: "Save the run's network traffic, with bodies, as network.har: 'on', 'off' or 'retain-on-failure'. Defaults to the workflow's own 'har' setting, or 'off'.",
+        },
+        browser: {
+          type: "string",
+          description: "Browser engine for the run: 'chromium', 'firefox' or 'webkit'. Defaults to the workflow's own 'browser' setting, then the server's.",
+        },
+        headless: {
+          type: "boolean",
+          description: "Run without a browser window. Defaults to the workflow's own 'headless' setting, then the server's.",
+        },
+        async: {
+          type: "boolean",
+          description: "Start the run in the background and return its run ID right away. Poll GET /runs/:runId, stream progress from GET /runs/:runId/events, or cancel with DELETE /runs/:runId.",
         },
       },
       required: ["workflow"],
@@ -0,0 +1,83 @@
+import * as readline from "readline";
+import { JSON_RPC_ERRORS, mcpProtocol } from "./protocol";
+import { JsonRpcResponse } from "../types";
+
+// stdout carries the JSON-RPC stream in stdio mode, so anything the rest of
+// the server prints has to go to stderr instead.
+export function routeConsoleToStderr(): void {
+  console.log = console.error;
+  console.info = console.error;
+  console.debug = console.error;
+}
+
+function send(message: JsonRpcResponse | JsonRpcResponse[]): void {
+  process.stdout.write(`${JSON.stringify(message)}\n`);
+}
+
+async function handleLine(line: string, sessionId: string): Promise<void> {
+  const session = mcpProtocol.getSession(sessionId)!;
+
+  let message: any;
+  try {
+    message = JSON.parse(line);
+  } catch {
+    send(
+      mcpProtocol.errorResponse(null, {
+        code: JSON_RPC_ERRORS.PARSE_ERROR,
+        message: "Parse error",
+      })
+    );
+    return;
+  }
+
+  if (Array.isArray(message)) {
+    const responses: JsonRpcResponse[] = [];
+    for (const item of message) {
+      const response = await mcpProtocol.handleMessage(item, session);
+      if (response) {
+        responses.push(response);
+      }
+    }
+    if (responses.length > 0) {
+      send(responses);
+    }
+    return;
+  }
+
+  const response = await mcpProtocol.handleMessage(message, session);
+  if (response) {
+    send(response);
+  }
+}
+
+// Resolves once stdin closes, i.e. when the host shuts us down.
+export function startStdioTransport(): Promise<void> {
+  const session = mcpProtocol.createSession("stdio");
+  mcpProtocol.registerSession(session);
+
+  const rl = readline.createInterface({ input: process.stdin });
+  // Messages are handled one at a time in the order they arrive, so nothing
+  // runs before initialize has finished and responses keep their order
+  let queue: Promise<void> = Promise.resolve();
+
+  console.log("[MCP-STDIO] Listening for JSON-RPC messages on stdin");
+
+  rl.on("line", (line) => {
+    if (!line.trim()) {
+      return;
+    }
+    queue = queue
+      .then(() => handleLine(line, session.id))
+      .catch((error) => {
+        console.error("[MCP-STDIO] Error handling message:", error);
+      });
+  });
+
+  return new Promise((resolve) => {
+    rl.on("close", async () => {
+      await queue;
+      console.log("[MCP-STDIO] stdin closed");
+      resolve();
+    });
+  });
+}
@@ -1,15 +1,102 @@
-import { browserManager } from "../playwright/browser";
-import { BrowserSession, ToolCallRequest, ToolCallResponse } from "../types";
+import { artifactStore } from "../artifacts/store";
+import { BROWSER_ENGINES, browserManager, isBrowserEngine } from "../playwright/browser";
+import {
+  DEFAULT_EVALUATE_TIMEOUT,
+  EvaluateTimeoutError,
+  MAX_EVALUATE_TIMEOUT,
+  evaluateScript,
+  isEvaluateEnabled,
+} from "../playwright/evaluate";
+import { clearConsoleLogs, getConsoleLogs } from "../playwright/console";
+import { validateContextOptions } from "../playwright/context";
+import { getDialogPolicy, getDialogs, setDialogPolicy } from "../playwright/dialogs";
+import { extractTable, getHtml, getText, queryAll } from "../playwright/extract";
+import { downloadFile, uploadFiles } from "../playwright/files";
+import {
+  dragAndDrop,
+  mouseClick,
+  pressKey,
+  scrollIntoView,
+  selectOptions,
+  setChecked,
+} from "../playwright/interactions";
+import { addRouteRule, listRouteRules, removeRouteRules } from "../playwright/mocking";
+import {
+  clearNetworkLog,
+  describeMatcher,
+  exportHar,
+  getNetworkLog,
+  waitForResponse,
+} from "../playwright/network";
+import { refSelector, snapshotSession } from "../playwright/snapshot";
+import {
+  closeTab,
+  describeTab,
+  listTabs,
+  openTab,
+  switchTab,
+  waitForPopup,
+} from "../playwright/tabs";
+import {
+  ArtifactInfo,
+  BrowserEngine,
+  BrowserSession,
+  ConsoleEntry,
+  ConsoleLogFilter,
+  DialogEntry,
+  DialogPolicy,
+  DownloadResult,
+  NetworkEntry,
+  NetworkLogFilter,
+  ProfileInfo,
+  ResponseMatcher,
+  RouteRule,
+  RouteRuleSpec,
+  SessionOptions,
+  TabInfo,
+  ToolCallRequest,
+  UploadFileSpec,
+  ToolCallResponse,
+  RecordingMode,
+  WorkflowDefinition,
+  WorkflowRunInfo,
+  WorkflowRunResult,
+} from "../types";
+import { WorkflowRunError } from "../workflows/runner";
+import { runManager } from "../workflows/runs";
+import { RECORDING_MODES, validateWorkflow } from "../workflows/schema";
+import { workflowStore } from "../workflows/store";
+import { resolveParameters } from "../workflows/variables";
 import { toolRegistry } from "./registry";
-import * as fs from "fs";
-import * as path from "path";
+
+// Arguments of create_session passed on to the browser manager
+const SESSION_OPTION_KEYS: (keyof SessionOptions)[] = [
+  "browser",
+  "headless",
+  "recordVideo",
+  "captureBodies",
+  "viewport",
+  "device",
+  "userAgent",
+  "locale",
+  "timezone",
+  "geolocation",
+  "permissions",
+  "colorScheme",
+  "httpCredentials",
+  "proxy",
+  "profile",
+];
 
 export class ToolExecutor {
   async execute(request: ToolCallRequest): Promise<ToolCallResponse> {
-    // For execute_workflow, always generate a new session ID to avoid issues with manually closed browsers
+    // For execute_workflow, always generate a new session ID to avoid issues with manually closed browsers.
+    // create_session starts a new session unless the caller names one.
     const sessionId =
       request.tool === "execute_workflow"
         ? this.generateSessionId()
+        : request.tool === "create_session"
+        ? request.sessionId || this.generateSessionId()
         : request.sessionId ||
           browserManager.getLastSessionId() ||
           this.generateSessionId();
@@ -30,20 +117,130 @@ export class ToolExecutor {
       let result: any;
 
       switch (request.tool) {
+        case "create_session":
+          result = await this.handleCreateSession(sessionId, request.arguments);
+          break;
         case "open_page":
           result = await this.handleOpenPage(
             sessionId,
-            request.arguments.url
+            request.arguments.url,
+            {
+              recordVideo: request.arguments.recordVideo,
+              browser: request.arguments.browser,
+              headless: request.arguments.headless,
+            }
           );
           break;
         case "click":
-          result = await this.handleClick(sessionId, request.arguments.selector);
+          result = await this.handleClick(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.ref
+          );
           break;
         case "fill":
           result = await this.handleFill(
             sessionId,
             request.arguments.selector,
-            request.arguments.text
+            request.arguments.text,
+            request.arguments.ref
+          );
+          break;
+        case "focus":
+          result = await this.handleFocus(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.ref
+          );
+          break;
+        case "type":
+          result = await this.handleType(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.text,
+            request.arguments.delay,
+            request.arguments.ref
+          );
+          break;
+        case "press":
+          result = await this.handlePress(
+            sessionId,
+            request.arguments.key,
+            request.arguments.selector,
+            request.arguments.ref
+          );
+          break;
+        case "hover":
+          result = await this.handleHover(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.ref
+          );
+          break;
+        case "select_option":
+          result = await this.handleSelectOption(sessionId, request.arguments);
+          break;
+        case "check":
+        case "uncheck":
+          result = await this.handleSetChecked(
+            sessionId,
+            request.tool === "check",
+            request.arguments.selector,
+            request.arguments.ref
+          );
+          break;
+        case "drag_and_drop":
+          result = await this.handleDragAndDrop(sessionId, request.arguments);
+          break;
+        case "scroll_into_view":
+          result = await this.handleScrollIntoView(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.ref
+          );
+          break;
+        case "mouse_click":
+          result = await this.handleMouseClick(
+            sessionId,
+            request.arguments.x,
+            request.arguments.y,
+            request.arguments
+          );
+          break;
+        case "get_text":
+          result = await this.handleGetText(sessionId, request.arguments.selector);
+          break;
+        case "get_html":
+          result = await this.handleGetHtml(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.outer
+          );
+          break;
+        case "query_all":
+          result = await this.handleQueryAll(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.attributes,
+            request.arguments.limit
+          );
+          break;
+        case "extract_table":
+          result = await this.handleExtractTable(sessionId, request.arguments.selector);
+          break;
+        case "evaluate":
+          result = await this.handleEvaluate(
+            sessionId,
+            request.arguments.script,
+            request.arguments.args,
+            request.arguments.timeout
+          );
+          break;
+        case "snapshot":
+          result = await this.handleSnapshot(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.interactiveOnly
           );
           break;
         case "wait_for_selector":
@@ -71,10 +268,81 @@ export class ToolExecutor {
         case "close_browser":
           result = await this.handleCloseBrowser(sessionId);
           break;
+        case "list_tabs":
+          result = await this.handleListTabs(sessionId);
+          break;
+        case "new_tab":
+          result = await this.handleNewTab(sessionId, request.arguments.url);
+          break;
+        case "switch_tab":
+          result = await this.handleSwitchTab(sessionId, request.arguments.id);
+          break;
+        case "close_tab":
+          result = await this.handleCloseTab(sessionId, request.arguments.id);
+          break;
+        case "wait_for_popup":
+          result = await this.handleWaitForPopup(sessionId, request.arguments);
+          break;
+        case "upload_file":
+          result = await this.handleUploadFile(
+            sessionId,
+            request.arguments.selector,
+            request.arguments.files,
+            request.arguments.ref
+          );
+          break;
+        case "download":
+          result = await this.handleDownload(sessionId, request.arguments);
+          break;
+        case "set_dialog_policy":
+          result = await this.handleSetDialogPolicy(sessionId, request.arguments as DialogPolicy);
+          break;
+        case "get_dialogs":
+          result = await this.handleGetDialogs(sessionId, request.arguments.clear);
+          break;
+        case "get_network_log":
+          result = await this.handleGetNetworkLog(sessionId, request.arguments);
+          break;
+        case "get_console_logs":
+          result = await this.handleGetConsoleLogs(sessionId, request.arguments);
+          break;
+        case "export_har":
+          result = await this.handleExportHar(sessionId, request.arguments);
+          break;
+        case "wait_for_response":
+          result = await this.handleWaitForResponse(sessionId, request.arguments);
+          break;
+        case "add_route":
+          result = await this.handleAddRoute(sessionId, request.arguments as RouteRuleSpec);
+          break;
+        case "list_routes":
+          result = await this.handleListRoutes(sessionId);
+          break;
+        case "remove_route":
+          result = await this.handleRemoveRoute(sessionId, request.arguments.id);
+          break;
+        case "save_profile":
+          result = await this.handleSaveProfile(sessionId, request.arguments.name);
+          break;
+        case "start_tracing":
+          result = await this.handleStartTracing(sessionId, request.arguments);
+          break;
+        case "stop_tracing":
+          result = await this.handleStopTracing(sessionId, request.arguments.name);
+          break;
         case "execute_workflow":
           result = await this.handleExecuteWorkflow(
             sessionId,
-            request.arguments.workflow
+            request.arguments.workflow,
+            request.arguments.params,
+            {
+              async: request.arguments.async,
+              trace: request.arguments.trace,
+              video: request.arguments.video,
+              har: request.arguments.har,
+              browser: request.arguments.browser,
+              headless: request.arguments.headless,
+            }
           );
           break;
         default:
@@ -96,21 +364,61 @@ export class ToolExecutor {
       return {
         success: false,
         error: errorMessage,
+        // A stopped workflow still reports the steps it got through
+        ...(error instanceof WorkflowRunError ? { data: error.run } : {}),
         sessionId,
       };
     }
   }
 
+  private async handleCreateSession(
+    sessionId: string,
+    args: Record<string, any>
+  ): Promise<{
+    sessionId: string;
+    browser: BrowserEngine;
+    headless: boolean;
+    viewport: { width: number; height: number } | null;
+    userAgent: string;
+  }> {
+    const invalid = this.validateCreateSession(args);
+    if (invalid) {
+      throw new Error(invalid);
+    }
+    if (browserManager.getSession(sessionId)) {
+      throw new Error(
+        `Session ${sessionId} already exists. Close it with close_browser before creating it again`
+      );
+    }
+
+    const options: SessionOptions = Object.fromEntries(
+      SESSION_OPTION_KEYS.filter((key) => args[key] !== undefined).map((key) => [key, args[key]])
+    );
+
+    console.log(`[${sessionId}] Creating session with options: ${Object.keys(options).join(", ") || "defaults"}`);
+    const session = await browserManager.getOrCreateSession(sessionId, options);
+
+    return {
+      sessionId,
+      browser: session.engine,
+      headless: session.headless,
+      viewport: session.page.viewportSize(),
+      userAgent: await session.page.evaluate(() => navigator.userAgent),
+    };
+  }
+
   private async handleOpenPage(
     sessionId: string,
-    url: string
-  ): Promise<{ url: string; title: string; sessionId: string }> {
+    url: string,
+    options: SessionOptions = {}
+  ): Promise<{ url: string; title: string; browser: BrowserEngine; sessionId: string }> {
     if (!this.isValidUrl(url)) {
       throw new Error(`Invalid URL: ${url}`);
     }
+    this.validateBrowserOptions(options);
 
     console.log(`[${sessionId}] Opening URL: ${url}`);
-    const session = await browserManager.getOrCreateSession(sessionId);
+    const session = await browserManager.getOrCreateSession(sessionId, options);
     console.log(`[${sessionId}] Session ready, navigating to page...`);
     await session.page.goto(url, { waitUntil: "networkidle", timeout: 60000 });
     console.log(`[${sessionId}] Navigation complete`);
@@ -118,54 +426,414 @@ export class ToolExecutor {
     return {
       url: session.page.url(),
       title: await session.page.title(),
+      browser: session.engine,
       sessionId: sessionId,
     };
   }
 
+  // Mistakes in create_session arguments, told apart from a browser that
+  // fails to start so the HTTP API can answer 400 for them
+  validateCreateSession(args: Record<string, any>): string | undefined {
+    const validation = toolRegistry.validateInput("create_session", args);
+    if (!validation.valid) {
+      return validation.error;
+    }
+    try {
+      this.validateBrowserOptions(args);
+    } catch (error) {
+      return error instanceof Error ? error.message : String(error);
+    }
+    const errors = validateContextOptions(args);
+    return errors.length > 0 ? `Invalid session options: ${errors.join("; ")}` : undefined;
+  }
+
+  private validateBrowserOptions(options: { browser?: unknown; headless?: unknown }): void {
+    if (options.browser !== undefined && !isBrowserEngine(options.browser)) {
+      throw new Error(`browser must be one of ${BROWSER_ENGINES.join(", ")}`);
+    }
+    if (options.headless !== undefined && typeof options.headless !== "boolean") {
+      throw new Error("headless must be a boolean");
+    }
+  }
+
   private async handleClick(
     sessionId: string,
-    selector: string
+    selector?: string,
+    ref?: string
+  ): Promise<{ message: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] Clicking ${target.label}`);
+    await session.page.click(target.selector);
+    console.log(`[${sessionId}] Click complete`);
+
+    return { message: `Clicked element: ${target.label}`, sessionId };
+  }
+
+  private async handleFill(
+    sessionId: string,
+    selector: string | undefined,
+    text: string,
+    ref?: string
+  ): Promise<{ message: string; sessionId: string }> {
+    if (typeof text !== "string") {
+      throw new Error("Text must be a string");
+    }
+
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] Filling ${target.label}`);
+    await session.page.fill(target.selector, text);
+    console.log(`[${sessionId}] Fill complete`);
+
+    return { message: `Filled ${target.label} with text`, sessionId };
+  }
+
+  private async handleFocus(
+    sessionId: string,
+    selector?: string,
+    ref?: string
   ): Promise<{ message: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] Focusing ${target.label}`);
+    await session.page.focus(target.selector);
+
+    return { message: `Focused element: ${target.label}`, sessionId };
+  }
+
+  private async handleType(
+    sessionId: string,
+    selector: string | undefined,
+    text: string,
+    delay?: number,
+    ref?: string
+  ): Promise<{ message: string; sessionId: string }> {
+    if (typeof text !== "string") {
+      throw new Error("Text must be a string");
+    }
+
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] Typing into ${target.label}`);
+    await session.page.type(target.selector, text, { delay: delay || 0 });
+    console.log(`[${sessionId}] Typing complete`);
+
+    return { message: `Typed text into ${target.label}`, sessionId };
+  }
+
+  private async handlePress(
+    sessionId: string,
+    key: string,
+    selector?: string,
+    ref?: string
+  ): Promise<{ message: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    // Without a selector or ref the key goes to the focused element
+    const target =
+      selector !== undefined || ref !== undefined
+        ? await this.resolveTarget(session, selector, ref)
+        : undefined;
+    console.log(`[${sessionId}] Pressing ${key}${target ? ` on ${target.label}` : ""}`);
+    await pressKey(session.page, key, target?.selector);
+
+    return { message: `Pressed ${key}${target ? ` on ${target.label}` : ""}`, sessionId };
+  }
+
+  private async handleHover(
+    sessionId: string,
+    selector?: string,
+    ref?: string
+  ): Promise<{ message: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] Hovering ${target.label}`);
+    await session.page.hover(target.selector);
+
+    return { message: `Hovered element: ${target.label}`, sessionId };
+  }
+
+  private async handleSelectOption(
+    sessionId: string,
+    args: { selector?: string; ref?: string; values?: string | string[]; labels?: string | string[] }
+  ): Promise<{ message: string; selected: string[]; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, args.selector, args.ref);
+    console.log(`[${sessionId}] Selecting options of ${target.label}`);
+    const selected = await selectOptions(session.page, target.selector, args);
+
+    return { message: `Selected ${selected.length} option(s) in ${target.label}`, selected, sessionId };
+  }
+
+  private async handleSetChecked(
+    sessionId: string,
+    checked: boolean,
+    selector?: string,
+    ref?: string
+  ): Promise<{ message: string; checked: boolean; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] ${checked ? "Checking" : "Unchecking"} ${target.label}`);
+    const state = await setChecked(session.page, target.selector, checked);
+
+    return { message: `${checked ? "Checked" : "Unchecked"} ${target.label}`, checked: state, sessionId };
+  }
+
+  private async handleDragAndDrop(
+    sessionId: string,
+    args: { source?: string; sourceRef?: string; target?: string; targetRef?: string }
+  ): Promise<{ message: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const source = await this.resolveTarget(session, args.source, args.sourceRef);
+    const target = await this.resolveTarget(session, args.target, args.targetRef);
+    console.log(`[${sessionId}] Dragging ${source.label} onto ${target.label}`);
+    await dragAndDrop(session.page, source.selector, target.selector);
+
+    return { message: `Dragged ${source.label} onto ${target.label}`, sessionId };
+  }
+
+  private async handleScrollIntoView(
+    sessionId: string,
+    selector?: string,
+    ref?: string
+  ): Promise<{ message: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] Scrolling to ${target.label}`);
+    await scrollIntoView(session.page, target.selector);
+
+    return { message: `Scrolled to ${target.label}`, sessionId };
+  }
+
+  private async handleMouseClick(
+    sessionId: string,
+    x: number,
+    y: number,
+    options: { button?: string; clickCount?: number }
+  ): Promise<{ message: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    console.log(`[${sessionId}] Clicking at (${x}, ${y})`);
+    await mouseClick(session.page, x, y, options);
+
+    return { message: `Clicked at (${x}, ${y})`, sessionId };
+  }
+
+  private async handleGetText(
+    sessionId: string,
+    selector?: string
+  ): Promise<{ text: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    console.log(`[${sessionId}] Getting text${selector ? ` of ${selector}` : ""}`);
+    const text = await getText(session.page, selector);
+
+    return { text, sessionId };
+  }
+
+  private async handleGetHtml(
+    sessionId: string,
+    selector?: string,
+    outer?: boolean
+  ): Promise<{ html: string; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    console.log(`[${sessionId}] Getting HTML${selector ? ` of ${selector}` : ""}`);
+    const html = await getHtml(session.page, selector, outer ?? true);
+
+    return { html, sessionId };
+  }
+
+  private async handleQueryAll(
+    sessionId: string,
+    selector: string,
+    attributes?: string[],
+    limit?: number
+  ): Promise<{ count: number; elements: Record<string, string | null>[]; sessionId: string }> {
     if (!selector || typeof selector !== "string") {
       throw new Error("Selector must be a non-empty string");
     }
+    if (attributes !== undefined && !attributes.every((a) => typeof a === "string")) {
+      throw new Error("attributes must be an array of strings");
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit <= 0)) {
+      throw new Error("limit must be a positive integer");
+    }
 
-    console.log(`[${sessionId}] Clicking selector: ${selector}`);
     let session = await browserManager.getSession(sessionId);
     if (!session) {
       console.log(`[${sessionId}] Session not found, creating new session`);
       session = await browserManager.getOrCreateSession(sessionId);
     }
 
-    await session.page.click(selector);
-    console.log(`[${sessionId}] Click complete`);
+    console.log(`[${sessionId}] Querying all: ${selector}`);
+    const elements = await queryAll(session.page, selector, attributes, limit);
 
-    return { message: `Clicked element: ${selector}`, sessionId };
+    return { count: elements.length, elements, sessionId };
   }
 
-  private async handleFill(
+  private async handleExtractTable(
     sessionId: string,
-    selector: string,
-    text: string
-  ): Promise<{ message: string; sessionId: string }> {
+    selector: string
+  ): Promise<{ rowCount: number; rows: Record<string, string>[]; sessionId: string }> {
     if (!selector || typeof selector !== "string") {
       throw new Error("Selector must be a non-empty string");
     }
-    if (typeof text !== "string") {
-      throw new Error("Text must be a string");
+
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    console.log(`[${sessionId}] Extracting table: ${selector}`);
+    const rows = await extractTable(session.page, selector);
+
+    return { rowCount: rows.length, rows, sessionId };
+  }
+
+  private async handleEvaluate(
+    sessionId: string,
+    script: string,
+    args?: Record<string, any>,
+    timeout?: number
+  ): Promise<{ result: any; sessionId: string }> {
+    if (!isEvaluateEnabled()) {
+      throw new Error(
+        "The evaluate tool is disabled. Start the server with ENABLE_EVALUATE=true to allow running page scripts"
+      );
+    }
+    if (!script || typeof script !== "string") {
+      throw new Error("Script must be a non-empty string");
+    }
+    const scriptTimeout = Math.min(timeout ?? DEFAULT_EVALUATE_TIMEOUT, MAX_EVALUATE_TIMEOUT);
+    if (!(scriptTimeout > 0)) {
+      throw new Error("Timeout must be a positive number");
     }
 
-    console.log(`[${sessionId}] Filling selector: ${selector}`);
     let session = await browserManager.getSession(sessionId);
     if (!session) {
       console.log(`[${sessionId}] Session not found, creating new session`);
       session = await browserManager.getOrCreateSession(sessionId);
     }
 
-    await session.page.fill(selector, text);
-    console.log(`[${sessionId}] Fill complete`);
+    console.log(`[${sessionId}] Evaluating script (timeout: ${scriptTimeout}ms)`);
+    try {
+      const result = await evaluateScript(session.page, script, args, scriptTimeout);
+      // undefined does not survive JSON
+      return { result: result === undefined ? null : result, sessionId };
+    } catch (error) {
+      if (error instanceof EvaluateTimeoutError) {
+        // The script may still be running and blocking the page
+        await browserManager.replacePage(sessionId);
+        throw new Error(`${error.message}. The page was reloaded so the session stays usable`);
+      }
+      throw error;
+    }
+  }
+
+  private async handleSnapshot(
+    sessionId: string,
+    selector?: string,
+    interactiveOnly?: boolean
+  ): Promise<{ url: string; title: string; snapshot: string; refCount: number; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    console.log(`[${sessionId}] Taking accessibility snapshot`);
+    const result = await snapshotSession(session, { selector, interactiveOnly });
 
-    return { message: `Filled ${selector} with text`, sessionId };
+    return {
+      url: session.page.url(),
+      title: await session.page.title(),
+      snapshot: result.snapshot,
+      refCount: result.refCount,
+      sessionId,
+    };
+  }
+
+  // Element tools take either a CSS selector or a ref from snapshot
+  private async resolveTarget(
+    session: BrowserSession,
+    selector?: string,
+    ref?: string
+  ): Promise<{ selector: string; label: string }> {
+    if (selector !== undefined && ref !== undefined) {
+      throw new Error("Pass either selector or ref, not both");
+    }
+    if (ref !== undefined) {
+      const refTarget = await refSelector(session, ref);
+      return { selector: refTarget, label: `ref ${ref}` };
+    }
+    if (!selector || typeof selector !== "string") {
+      throw new Error("Selector must be a non-empty string (or pass ref from a snapshot)");
+    }
+    return { selector, label: selector };
   }
 
   private async handleGetTitle(sessionId: string): Promise<{ title: string; sessionId: string }> {
@@ -292,246 +960,405 @@ export class ToolExecutor {
 
   private async handleCloseBrowser(
     sessionId: string
+  ): Promise<{ message: string; artifacts: ArtifactInfo[]; sessionId: string }> {
+    const artifacts = await browserManager.closeSession(sessionId);
+
+    return { message: `Session ${sessionId} closed`, artifacts, sessionId };
+  }
+
+  private async handleGetNetworkLog(
+    sessionId: string,
+    args: NetworkLogFilter & { clear?: boolean }
+  ): Promise<{ entries: NetworkEntry[]; total: number; dropped: number; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const { clear, ...filter } = args;
+    const log = getNetworkLog(session, filter);
+    if (clear) {
+      clearNetworkLog(session);
+    }
+    return { ...log, sessionId };
+  }
+
+  private async handleGetConsoleLogs(
+    sessionId: string,
+    args: ConsoleLogFilter & { clear?: boolean }
+  ): Promise<{ entries: ConsoleEntry[]; total: number; dropped: number; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const { clear, ...filter } = args;
+    const log = getConsoleLogs(session, filter);
+    if (clear) {
+      clearConsoleLogs(session);
+    }
+    return { ...log, sessionId };
+  }
+
+  private async handleExportHar(
+    sessionId: string,
+    args: NetworkLogFilter & { name?: string }
+  ): Promise<{ message: string; artifact: ArtifactInfo; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const { name: requestedName, ...filter } = args;
+    let name = requestedName || artifactStore.timestampedName("network", "har");
+    if (!name.endsWith(".har")) {
+      name = `${name}.har`;
+    }
+    const artifact = exportHar(session, session.artifactOwnerId || sessionId, name, filter);
+
+    return {
+      message: `HAR saved. Download it from ${artifact.url}; copy it into the mocks directory to replay it with add_route`,
+      artifact,
+      sessionId,
+    };
+  }
+
+  private async handleWaitForResponse(
+    sessionId: string,
+    args: ResponseMatcher & { status?: number; timeout?: number; lookback?: number }
+  ): Promise<{
+    url: string;
+    method: string;
+    status: number;
+    statusText: string;
+    waited: number;
+    sessionId: string;
+  }> {
+    if (args.urlRegex !== undefined) {
+      try {
+        new RegExp(args.urlRegex);
+      } catch {
+        throw new Error(`urlRegex is not a valid regular expression: ${args.urlRegex}`);
+      }
+    }
+
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    console.log(`[${sessionId}] Waiting for response: ${describeMatcher(args)}`);
+    const response = await waitForResponse(session, {
+      url: args.url,
+      urlRegex: args.urlRegex,
+      method: args.method,
+      timeout: args.timeout ?? 30000,
+      lookback: args.lookback,
+    });
+    if (args.status !== undefined && response.status !== args.status) {
+      throw new Error(
+        `Response ${response.method} ${response.url} returned ${response.status} ${response.statusText}, expected ${args.status}`
+      );
+    }
+
+    return { ...response, sessionId };
+  }
+
+  private async handleAddRoute(
+    sessionId: string,
+    spec: RouteRuleSpec
+  ): Promise<{ rule: RouteRule; sessionId: string }> {
+    // Rules should be in place before the first navigation, so create the
+    // session if needed
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const rule = await addRouteRule(session, spec);
+    return { rule, sessionId };
+  }
+
+  private async handleListRoutes(
+    sessionId: string
+  ): Promise<{ rules: RouteRule[]; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    return { rules: session ? listRouteRules(session) : [], sessionId };
+  }
+
+  private async handleRemoveRoute(
+    sessionId: string,
+    id?: string
+  ): Promise<{ removed: RouteRule[]; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const removed = await removeRouteRules(session, id);
+    return { removed, sessionId };
+  }
+
+  private async handleListTabs(
+    sessionId: string
+  ): Promise<{ tabs: TabInfo[]; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    return { tabs: session ? await listTabs(session) : [], sessionId };
+  }
+
+  private async handleNewTab(
+    sessionId: string,
+    url?: string
+  ): Promise<{ tab: TabInfo; sessionId: string }> {
+    if (url !== undefined && !this.isValidUrl(url)) {
+      throw new Error(`Invalid URL: ${url}`);
+    }
+
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const page = await openTab(session);
+    if (url) {
+      console.log(`[${sessionId}] Opening ${url} in a new tab`);
+      await page.goto(url, { waitUntil: "networkidle", timeout: 60000 });
+    }
+    return { tab: await describeTab(session, page), sessionId };
+  }
+
+  private async handleSwitchTab(
+    sessionId: string,
+    id: string
+  ): Promise<{ tab: TabInfo; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const page = await switchTab(session, id);
+    console.log(`[${sessionId}] Switched to tab ${id}`);
+    return { tab: await describeTab(session, page), sessionId };
+  }
+
+  private async handleCloseTab(
+    sessionId: string,
+    id?: string
+  ): Promise<{ closed: string; activeTab: TabInfo; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const closed = await closeTab(session, id);
+    console.log(`[${sessionId}] Closed tab ${closed}`);
+    return { closed, activeTab: await describeTab(session, session.page), sessionId };
+  }
+
+  private async handleWaitForPopup(
+    sessionId: string,
+    args: { selector?: string; ref?: string; timeout?: number; activate?: boolean }
+  ): Promise<{ tab: TabInfo; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, args.selector, args.ref);
+    const page = session.page;
+    console.log(`[${sessionId}] Clicking ${target.label} and waiting for a popup`);
+    const popup = await waitForPopup(session, () => page.click(target.selector), {
+      timeout: args.timeout ?? 30000,
+      activate: args.activate !== false,
+    });
+    return { tab: await describeTab(session, popup), sessionId };
+  }
+
+  private async handleUploadFile(
+    sessionId: string,
+    selector: string | undefined,
+    files: UploadFileSpec[],
+    ref?: string
+  ): Promise<{ message: string; files: string[]; sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, selector, ref);
+    console.log(`[${sessionId}] Setting ${files?.length ?? 0} file(s) on ${target.label}`);
+    const names = await uploadFiles(session, target.selector, files);
+
+    return {
+      message: names.length > 0 ? `Set ${names.length} file(s) on ${target.label}` : `Cleared ${target.label}`,
+      files: names,
+      sessionId,
+    };
+  }
+
+  private async handleDownload(
+    sessionId: string,
+    args: { selector?: string; ref?: string; name?: string; timeout?: number }
+  ): Promise<DownloadResult & { sessionId: string }> {
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const target = await this.resolveTarget(session, args.selector, args.ref);
+    const page = session.page;
+    console.log(`[${sessionId}] Clicking ${target.label} and waiting for a download`);
+    const download = await downloadFile(session, () => page.click(target.selector), {
+      ownerId: session.artifactOwnerId || sessionId,
+      name: args.name,
+      timeout: args.timeout ?? 30000,
+    });
+    return { ...download, sessionId };
+  }
+
+  private async handleSetDialogPolicy(
+    sessionId: string,
+    policy: DialogPolicy
+  ): Promise<{ policy: DialogPolicy; previous: DialogPolicy; sessionId: string }> {
+    // The policy must be in place before the action that opens the dialog,
+    // so create the session if needed
+    let session = await browserManager.getSession(sessionId);
+    if (!session) {
+      console.log(`[${sessionId}] Session not found, creating new session`);
+      session = await browserManager.getOrCreateSession(sessionId);
+    }
+
+    const previous = setDialogPolicy(session, {
+      action: policy.action,
+      promptText: policy.promptText,
+      once: policy.once,
+    });
+    return { policy: getDialogPolicy(session), previous, sessionId };
+  }
+
+  private async handleGetDialogs(
+    sessionId: string,
+    clear?: boolean
+  ): Promise<{ dialogs: DialogEntry[]; policy: DialogPolicy; sessionId: string }> {
+    const session = await browserManager.getSession(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    return { dialogs: getDialogs(session, clear === true), policy: getDialogPolicy(session), sessionId };
+  }
+
+  private async handleSaveProfile(
+    sessionId: string,
+    name: string
+  ): Promise<{ message: string; profile: ProfileInfo; sessionId: string }> {
+    if (!browserManager.getSession(sessionId)) {
+      throw new Error(`Session ${sessionId} not found. Log in with open_page, fill and click first`);
+    }
+
+    const profile = await browserManager.saveProfile(sessionId, name);
+
+    return {
+      message: `Saved profile "${name}". Start new sessions from it with create_session({ profile: "${name}" }) or a workflow's "useProfile"`,
+      profile,
+      sessionId,
+    };
+  }
+
+  private async handleStartTracing(
+    sessionId: string,
+    options: { screenshots?: boolean; snapshots?: boolean; title?: string }
   ): Promise<{ message: string; sessionId: string }> {
-    await browserManager.closeSession(sessionId);
+    // Tracing covers what happens next, so it needs a session to exist
+    await browserManager.getOrCreateSession(sessionId);
+    await browserManager.startTracing(sessionId, options);
 
-    return { message: `Session ${sessionId} closed`, sessionId };
+    return { message: `Tracing started for session ${sessionId}`, sessionId };
+  }
+
+  private async handleStopTracing(
+    sessionId: string,
+    name?: string
+  ): Promise<{ message: string; artifact: ArtifactInfo; sessionId: string }> {
+    if (name !== undefined && !name.endsWith(".zip")) {
+      name = `${name}.zip`;
+    }
+
+    // Only a discarded trace comes back without an artifact
+    const artifact = await browserManager.stopTracing(sessionId, { name });
+    if (!artifact) {
+      throw new Error(`Tracing of session ${sessionId} stopped without saving a trace`);
+    }
+
+    return {
+      message: `Trace saved. Download it from ${artifact.url} and open it with: npx playwright show-trace ${artifact.name}`,
+      artifact,
+      sessionId,
+    };
   }
 
   private async handleExecuteWorkflow(
     sessionId: string,
-    workflowName: string
-  ): Promise<{ 
-    message: string; 
-    stepsExecuted: number; 
-    results: any[]; 
-    sessionId: string 
-  }> {
+    workflowName: string,
+    params?: Record<string, any>,
+    options: {
+      async?: boolean;
+      trace?: RecordingMode;
+      video?: RecordingMode;
+      har?: RecordingMode;
+      browser?: BrowserEngine;
+      headless?: boolean;
+    } = {}
+  ): Promise<WorkflowRunResult | WorkflowRunInfo> {
     if (!workflowName || typeof workflowName !== "string") {
       throw new Error("Workflow name must be a non-empty string");
     }
-
-    // Load workflow file
-    const workflowPath = path.join(__dirname, "../../workflows", `${workflowName}.json`);
-    
-    if (!fs.existsSync(workflowPath)) {
-      throw new Error(`Workflow "${workflowName}" not found. Available workflows: bim-login-only, bim-login-and-create`);
-    }
-
-    console.log(`[${sessionId}] Loading workflow from: ${workflowPath}`);
-    const workflowContent = fs.readFileSync(workflowPath, "utf-8");
-    const workflow = JSON.parse(workflowContent);
-
-    console.log(`[${sessionId}] Executing workflow: ${workflow.name}`);
-    console.log(`[${sessionId}] Description: ${workflow.description}`);
-    console.log(`[${sessionId}] Total steps: ${workflow.steps.length}`);
-
-    // Close all old sessions and focus on the new one
-    console.log(`[${sessionId}] Closing all previous sessions...`);
-    await browserManager.closeAllSessions();
-    console.log(`[${sessionId}] Previous sessions closed. Starting fresh workflow.`);
-
-    // Generate random values if preconditions exist
-    const randomValues: { [key: string]: string } = {};
-    if (workflow.preconditions?.generateRandomValues) {
-      console.log(`[${sessionId}] Generating random values...`);
-      for (const [key, template] of Object.entries(workflow.preconditions.randomValues || {})) {
-        const templateStr = template as string;
-        let value = templateStr;
-        
-        // Replace placeholders
-        if (templateStr.includes('{randomNum}')) {
-          value = value.replace('{randomNum}', Math.floor(Math.random() * 1000000).toString().padStart(6, '0'));
-        }
-        if (templateStr.includes('{randomWord}')) {
-          const words = ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon', 'Zeta', 'Eta', 'Theta'];
-          value = value.replace('{randomWord}', words[Math.floor(Math.random() * words.length)]);
-        }
-        if (templateStr.includes('{randomStr}')) {
-          const chars = 'abcdefghijklmnopqrstuvwxyz';
-          const str = Array.from({ length: 5 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
-          value = value.replace('{randomStr}', str);
-        }
-        
-        randomValues[key] = value;
-        console.log(`[${sessionId}] ${key}: ${value}`);
+    for (const key of ["trace", "video", "har"] as const) {
+      if (options[key] !== undefined && !RECORDING_MODES.includes(options[key]!)) {
+        throw new Error(`${key} must be one of ${RECORDING_MODES.join(", ")}`);
       }
     }
+    this.validateBrowserOptions(options);
 
-    const results: any[] = [];
-    let session = await browserManager.getOrCreateSession(sessionId);
-    const GLOBAL_TIMEOUT = 60000; // 60 seconds global timeout
+    const workflow = workflowStore.get(workflowName);
+    console.log(`[${sessionId}] Loaded workflow from: ${workflowStore.filePath(workflowName)}`);
 
-    for (let i = 0; i < workflow.steps.length; i++) {
-      const step = workflow.steps[i];
-      console.log(`[${sessionId}] Step ${i + 1}/${workflow.steps.length}: ${step.description}`);
+    const validation = validateWorkflow(workflow);
+    if (!validation.valid) {
+      throw new Error(
+        `Workflow "${workflowName}" is invalid: ${validation.errors.join("; ")}`
+      );
+    }
 
-      let stepStartTime = 0;
-      try {
-        // Replace {timestamp} placeholder in text fields
-        const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
-        if (step.arguments.text) {
-          step.arguments.text = step.arguments.text.replace('{timestamp}', timestamp);
-          
-          // Replace random value placeholders
-          for (const [key, value] of Object.entries(randomValues)) {
-            step.arguments.text = step.arguments.text.replace(`{${key}}`, value);
-          }
-        }
-
-        let stepResult: any;
-        stepStartTime = Date.now();
-        
-        // Execute the step based on action type with global timeout protection
-        const stepPromise = (async () => {
-          switch (step.action) {
-            case "open_page":
-              await session.page.goto(step.arguments.url, { 
-                waitUntil: "networkidle", 
-                timeout: 60000 
-              });
-              return { url: session.page.url(), title: await session.page.title() };
-            
-            case "click":
-              await session.page.click(step.arguments.selector, { timeout: GLOBAL_TIMEOUT });
-              return { clicked: step.arguments.selector };
-            
-            case "fill":
-              await session.page.fill(step.arguments.selector, step.arguments.text, { timeout: GLOBAL_TIMEOUT });
-              return { filled: step.arguments.selector, text: step.arguments.text };
-            
-            case "focus":
-              await session.page.focus(step.arguments.selector);
-              return { focused: step.arguments.selector };
-            
-            case "type":
-              await session.page.type(step.arguments.selector, step.arguments.text, { delay: step.arguments.delay || 0 });
-              return { typed: step.arguments.selector, text: step.arguments.text };
-            
-            case "wait_for_selector":
-              const timeout = Math.min(step.arguments.timeout || 30000, GLOBAL_TIMEOUT);
-              await session.page.waitForSelector(step.arguments.selector, { timeout });
-              return { appeared: step.arguments.selector };
-            
-            case "wait_for_enabled":
-              const waitTimeout = Math.min(step.arguments.timeout || 30000, GLOBAL_TIMEOUT);
-              const selector = step.arguments.selector;
-              const checkInterval = 500;
-              const startTime = Date.now();
-              
-              while (Date.now() - startTime < waitTimeout) {
-                try {
-                  const isDisabled = await session.page.evaluate((sel: string) => {
-                    const elem = document.querySelector(sel);
-                    return (elem as HTMLElement)?.getAttribute('data-disabled') === 'true' || elem?.hasAttribute('disabled');
-                  }, selector);
-                  
-                  if (!isDisabled) {
-                    return { enabled: selector };
-                  }
-                } catch (evalError) {
-                  console.log(`[${sessionId}] Still waiting for element ${selector} to be available...`);
-                }
-                await new Promise(r => setTimeout(r, checkInterval));
-              }
-              throw new Error(`Element ${selector} did not become enabled within ${waitTimeout}ms`);
-            
-            case "wait_for_network":
-              const networkTimeout = Math.min(step.arguments.timeout || 30000, GLOBAL_TIMEOUT);
-              const networkUrl = step.arguments.url;
-              const networkCheckInterval = 200;
-              const networkStartTime = Date.now();
-              
-              console.log(`[${sessionId}] Waiting for network response: ${networkUrl}`);
-              
-              // Set up request listener
-              let requestFound = false;
-              const requestHandler = (request: any) => {
-                if (request.url().includes(networkUrl)) {
-                  requestFound = true;
-                  console.log(`[${sessionId}] Network request intercepted: ${networkUrl}`);
-                }
-              };
-              
-              session.page.on('request', requestHandler);
-              
-              try {
-                while (Date.now() - networkStartTime < networkTimeout && !requestFound) {
-                  await new Promise(r => setTimeout(r, networkCheckInterval));
-                }
-                
-                if (!requestFound) {
-                  throw new Error(`Network response not received: ${networkUrl}`);
-                }
-                
-                return { networkResponse: networkUrl };
-              } finally {
-                session.page.removeListener('request', requestHandler);
-              }
-            
-            case "screenshot":
-              const buffer = await session.page.screenshot();
-              const base64 = buffer.toString("base64");
-              return { screenshot: `${base64.substring(0, 50)}... (${base64.length} chars)` };
-            
-            default:
-              throw new Error(`Unknown action: ${step.action}`);
-          }
-        })();
-
-        // Wrap with timeout protection
-        stepResult = await Promise.race([
-          stepPromise,
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error(`STEP TIMEOUT: Operation exceeded 60 seconds - ${step.action} on ${step.arguments.selector || 'N/A'}`)), GLOBAL_TIMEOUT)
-          )
-        ]);
-
-        const stepDuration = Date.now() - stepStartTime;
-        console.log(`[${sessionId}] Step ${i + 1} completed in ${stepDuration}ms`);
-
-        results.push({
-          step: i + 1,
-          action: step.action,
-          description: step.description,
-          success: true,
-          result: stepResult,
-          duration: stepDuration
-        });
-
-        // Wait after step if specified
-        if (step.waitAfter && step.waitAfter > 0) {
-          console.log(`[${sessionId}] Waiting ${step.waitAfter}ms...`);
-          await new Promise(resolve => setTimeout(resolve, step.waitAfter));
-        }
-
-      } catch (error) {
-        const errorMessage = error instanceof Error ? error.message : String(error);
-        const stepDuration = Date.now() - stepStartTime;
-        console.error(`[${sessionId}] Step ${i + 1} FAILED after ${stepDuration}ms: ${errorMessage}`);
-        
-        results.push({
-          step: i + 1,
-          action: step.action,
-          description: step.description,
-          success: false,
-          error: errorMessage,
-          duration: stepDuration
-        });
+    // Reject bad params now rather than in a background run nobody is watching
+    resolveParameters(workflow, params);
 
-        // Stop workflow if step fails (GLOBAL CONDITION)
-        throw new Error(`WORKFLOW STOPPED: Step ${i + 1} (${step.description}) failed after ${stepDuration}ms - ${errorMessage}`);
-      }
+    const { runId, promise } = runManager.start(workflow, sessionId, params, {
+      trace: options.trace,
+      video: options.video,
+      har: options.har,
+      browser: options.browser,
+      headless: options.headless,
+    });
+    if (options.async) {
+      console.log(`[${sessionId}] Started workflow run ${runId} in the background`);
+      return runManager.get(runId)!;
     }
 
-    console.log(`[${sessionId}] Workflow completed successfully`);
+    const run = await promise;
+    // A run that stopped, or could not start at all, is an error for the
+    // caller; one with failed steps under CONTINUE policies is not
+    if (run.stoppedAtStep !== undefined || (run.status === "failed" && run.error !== undefined)) {
+      throw new WorkflowRunError(run.error || run.message, run);
+    }
 
-    return {
-      message: `Workflow "${workflow.name}" completed successfully. Executed ${workflow.steps.length} steps.`,
-      stepsExecuted: workflow.steps.length,
-      results,
-      sessionId
-    };
+    return run;
   }
 
   private generateSessionId(): string {
@@ -1,13 +1,50 @@
-import { chromium, Browser, BrowserContext, Page } from "playwright";
-import { BrowserSession } from "../types";
+import { chromium, firefox, webkit, Browser, BrowserType, Page } from "playwright";
+import { artifactStore } from "../artifacts/store";
+import { profileStore } from "../profiles/store";
+import {
+  ArtifactInfo,
+  BrowserEngine,
+  BrowserSession,
+  ProfileInfo,
+  SessionOptions,
+} from "../types";
+import { attachConsoleLog } from "./console";
+import { buildContextOptions, deviceEngine } from "./context";
+import { attachDialogHandler } from "./dialogs";
+import { attachNetworkLog } from "./network";
+import { replaceTabPage, trackTabs } from "./tabs";
 import { exec } from "child_process";
+import * as os from "os";
+import * as path from "path";
 import { promisify } from "util";
 
 const execAsync = promisify(exec);
 
+const browserTypes: Record<BrowserEngine, BrowserType> = { chromium, firefox, webkit };
+
+export const BROWSER_ENGINES = Object.keys(browserTypes) as BrowserEngine[];
+
+export function isBrowserEngine(value: unknown): value is BrowserEngine {
+  return typeof value === "string" && BROWSER_ENGINES.includes(value as BrowserEngine);
+}
+
+// Server-wide defaults for sessions that don't pick an engine or mode
+export function defaultEngine(): BrowserEngine {
+  const engine = process.env.BROWSER_ENGINE || "chromium";
+  if (!isBrowserEngine(engine)) {
+    throw new Error(`BROWSER_ENGINE must be one of ${BROWSER_ENGINES.join(", ")}, got "${engine}"`);
+  }
+  return engine;
+}
+
+export function defaultHeadless(): boolean {
+  return process.env.HEADLESS === "true";
+}
+
 class BrowserManager {
   private sessions: Map<string, BrowserSession> = new Map();
-  private browserInstance: Browser | null = null;
+  // One launched browser per engine and headless mode, shared by its sessions
+  private browsers: Map<string, Browser> = new Map();
   private sessionTimeout: number = 30 * 60 * 1000;
   private lastSessionId: string | null = null;
   private initializationComplete: boolean = false;
@@ -30,27 +67,33 @@ class BrowserManager {
     console.log("[INITIALIZATION] Browser manager ready\n");
   }
 
+  // Kills browsers left over from an earlier run of the server, of every
+  // engine. Only Playwright's own browser builds are matched, by their install
+  // directory, so a Chrome or Firefox the user has open is left alone.
   private async cleanupOrphanedProcesses(): Promise<void> {
+    const browsersPath = process.env.PLAYWRIGHT_BROWSERS_PATH || "ms-playwright";
     try {
       if (process.platform === "win32") {
-        // Windows: Kill orphaned Chrome processes
+        const pattern = `*${browsersPath}*`.replace(/'/g, "''");
         await execAsync(
-          'taskkill /F /IM chrome.exe /T 2>nul || exit /b 0',
-          { shell: "cmd.exe" }
+          `powershell -NoProfile -Command "Get-CimInstance Win32_Process | Where-Object { $_.ExecutablePath -like '${pattern}' } | ForEach-Object { Stop-Process -Id $_.ProcessId -Force }"`
         );
-        console.log("[CLEANUP] Orphaned Chrome processes cleaned up");
       } else {
-        // Unix/Linux: Kill orphaned Chrome processes
-        await execAsync('pkill -9 chrome || true');
-        console.log("[CLEANUP] Orphaned Chrome processes cleaned up");
+        const pattern = `${browsersPath.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}/(chromium|firefox|webkit)`;
+        await execAsync(`pkill -9 -f '${pattern.replace(/'/g, "'\\''")}' || true`);
       }
+      console.log("[CLEANUP] Orphaned Playwright browser processes cleaned up");
     } catch (error) {
       // Silently fail if no processes to kill
       console.debug("[CLEANUP] No orphaned processes found");
     }
   }
 
-  async getOrCreateSession(sessionId: string): Promise<BrowserSession> {
+  // Options only apply when a new session is created
+  async getOrCreateSession(
+    sessionId: string,
+    options: SessionOptions = {}
+  ): Promise<BrowserSession> {
     // Ensure initialization is complete
     if (!this.initializationComplete) {
       await this.initialize();
@@ -63,48 +106,68 @@ class BrowserManager {
       try {
         await session.page.evaluate(() => true);
         console.log(`[SESSION] Reusing existing session: ${sessionId}`);
+        if (options.recordVideo && !session.videos) {
+          console.warn(`[SESSION] Session ${sessionId} already exists without video recording`);
+        }
+        if (
+          (options.browser && options.browser !== session.engine) ||
+          (options.headless !== undefined && options.headless !== session.headless)
+        ) {
+          console.warn(
+            `[SESSION] Session ${sessionId} already runs ${this.describeBrowser(session.engine, session.headless)}`
+          );
+        }
         return session;
       } catch (error) {
         // Session is invalid (browser was closed manually), remove it
         console.log(`[SESSION] Session ${sessionId} is invalid (browser closed), creating new one`);
         this.sessions.delete(sessionId);
-        this.browserInstance = null;
       }
     }
 
-    // Check if browser instance is still connected
-    if (this.browserInstance) {
-      try {
-        await this.browserInstance.version();
-      } catch (error) {
-        // Browser was closed manually, clear the instance
-        console.log("[SESSION] Browser instance is disconnected, creating new one");
-        this.browserInstance = null;
-        this.sessions.clear();
-      }
+    const engine = options.browser ?? deviceEngine(options.device) ?? defaultEngine();
+    if (!isBrowserEngine(engine)) {
+      throw new Error(`Browser must be one of ${BROWSER_ENGINES.join(", ")}`);
     }
+    const headless = options.headless ?? defaultHeadless();
+    const browser = await this.getBrowser(engine, headless);
 
-    if (!this.browserInstance) {
-      console.log("[SESSION] Launching browser...");
-      this.browserInstance = await chromium.launch({
-        headless: false,
-        slowMo: 0,
-        args: ["--disable-blink-features=AutomationControlled"],
+    console.log(`[SESSION] Creating new context for session ${sessionId}`);
+    const context = await browser.newContext({
+      ...buildContextOptions(options),
+      ...(options.recordVideo
+        ? // Recorded to a scratch directory; the videos become artifacts on close
+          { recordVideo: { dir: path.join(os.tmpdir(), "playwright-mcp-videos", sessionId) } }
+        : {}),
+    });
+    const videos: BrowserSession["videos"] = options.recordVideo ? [] : undefined;
+    if (videos) {
+      context.on("page", (newPage) => {
+        const video = newPage.video();
+        if (video) {
+          videos.push(video);
+        }
       });
-      console.log("[SESSION] Browser launched successfully");
     }
-
-    console.log(`[SESSION] Creating new context for session ${sessionId}`);
-    const context = await this.browserInstance.newContext();
+    const network = attachNetworkLog(context, { captureBodies: options.captureBodies });
+    const consoleLog = attachConsoleLog(context);
     const page = await context.newPage();
-    console.log(`[SESSION] Page created for session ${sessionId}`);
+    console.log(`[SESSION] Page created for session ${sessionId}${videos ? " (recording video)" : ""}`);
 
     session = {
-      browser: this.browserInstance,
+      browser,
+      engine,
+      headless,
       context,
       page,
       createdAt: Date.now(),
+      artifactOwnerId: options.artifactOwnerId,
+      videos,
+      network,
+      console: consoleLog,
     };
+    trackTabs(session);
+    attachDialogHandler(session);
 
     this.sessions.set(sessionId, session);
     this.lastSessionId = sessionId;
@@ -133,12 +196,50 @@ class BrowserManager {
     }
     
     this.sessions.clear();
-    this.browserInstance = null;
+    await this.closeBrowsers();
     this.lastSessionId = null;
     this.initializationComplete = false;
     console.log("[CLEANUP] All sessions and browser cleaned up");
   }
 
+  // Launches the engine on first use, and again if it was closed manually
+  private async getBrowser(engine: BrowserEngine, headless: boolean): Promise<Browser> {
+    const key = this.browserKey(engine, headless);
+    const existing = this.browsers.get(key);
+
+    if (existing) {
+      if (existing.isConnected()) {
+        return existing;
+      }
+      console.log(`[SESSION] ${this.describeBrowser(engine, headless)} is disconnected, launching a new one`);
+      this.browsers.delete(key);
+      for (const [sessionId, session] of this.sessions) {
+        if (session.browser === existing) {
+          this.sessions.delete(sessionId);
+        }
+      }
+    }
+
+    console.log(`[SESSION] Launching ${this.describeBrowser(engine, headless)}...`);
+    const browser = await browserTypes[engine].launch({
+      headless,
+      slowMo: 0,
+      // Chromium-only switch that hides navigator.webdriver
+      args: engine === "chromium" ? ["--disable-blink-features=AutomationControlled"] : [],
+    });
+    this.browsers.set(key, browser);
+    console.log("[SESSION] Browser launched successfully");
+    return browser;
+  }
+
+  private browserKey(engine: BrowserEngine, headless: boolean): string {
+    return `${engine}:${headless ? "headless" : "headed"}`;
+  }
+
+  private describeBrowser(engine: BrowserEngine, headless: boolean): string {
+    return `${engine} (${headless ? "headless" : "headed"})`;
+  }
+
   getSession(sessionId: string | null): BrowserSession | undefined {
     const actualSessionId = sessionId || this.lastSessionId;
     if (!actualSessionId) {
@@ -151,10 +252,114 @@ class BrowserManager {
     return this.lastSessionId;
   }
 
-  async closeSession(sessionId: string): Promise<void> {
+  // Swaps a page that stopped responding, e.g. because of a script stuck in
+  // a loop, for a fresh one at the same URL. The context, and with it the
+  // cookies and storage, is kept.
+  async replacePage(sessionId: string): Promise<Page> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    const stuckPage = session.page;
+    const url = stuckPage.url();
+    const page = await session.context.newPage();
+    replaceTabPage(session, stuckPage, page);
+    session.page = page;
+    // A busy page may never confirm that it closed, so don't wait for it
+    stuckPage.close({ runBeforeUnload: false }).catch(() => undefined);
+    console.log(`[SESSION] Replaced unresponsive page of session ${sessionId}`);
+
+    if (url && url !== "about:blank") {
+      try {
+        await page.goto(url, { waitUntil: "domcontentloaded", timeout: 60000 });
+      } catch (error) {
+        console.warn(`[SESSION] Could not reload ${url} in session ${sessionId}:`, error);
+      }
+    }
+    return page;
+  }
+
+  // Saves the session's cookies and localStorage so new sessions can start
+  // from them; an existing profile of that name is replaced
+  async saveProfile(sessionId: string, name: string): Promise<ProfileInfo> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+
+    await session.context.storageState({ path: profileStore.reservePath(name) });
+    console.log(`[PROFILES] Saved session ${sessionId} as profile ${name}`);
+    return profileStore.describe(name);
+  }
+
+  async startTracing(
+    sessionId: string,
+    options: { screenshots?: boolean; snapshots?: boolean; title?: string } = {}
+  ): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      throw new Error(`Session ${sessionId} not found`);
+    }
+    if (session.tracing) {
+      throw new Error(`Tracing is already running for session ${sessionId}`);
+    }
+
+    await session.context.tracing.start({
+      screenshots: options.screenshots ?? true,
+      snapshots: options.snapshots ?? true,
+      title: options.title,
+    });
+    session.tracing = { startedAt: Date.now(), title: options.title };
+    console.log(`[TRACING] Started tracing for session ${sessionId}`);
+  }
+
+  // Saves the trace as an artifact of ownerId (the session's artifact owner by
+  // default), or discards it when save is false
+  async stopTracing(
+    sessionId: string,
+    options: { ownerId?: string; name?: string; save?: boolean } = {}
+  ): Promise<ArtifactInfo | undefined> {
+    const session = this.sessions.get(sessionId);
+    if (!session?.tracing) {
+      throw new Error(`Tracing is not running for session ${sessionId}`);
+    }
+
+    if (options.save === false) {
+      session.tracing = undefined;
+      await session.context.tracing.stop();
+      console.log(`[TRACING] Discarded trace for session ${sessionId}`);
+      return undefined;
+    }
+
+    const ownerId = options.ownerId || session.artifactOwnerId || sessionId;
+    const name = options.name || artifactStore.timestampedName("trace", "zip");
+    const filePath = artifactStore.reservePath(ownerId, name);
+    session.tracing = undefined;
+    await session.context.tracing.stop({ path: filePath });
+    console.log(`[TRACING] Saved trace for session ${sessionId} as ${ownerId}/${name}`);
+    return artifactStore.describe(ownerId, name);
+  }
+
+  // Returns the artifacts saved while closing: a trace still running and the
+  // session's videos
+  async closeSession(sessionId: string): Promise<ArtifactInfo[]> {
     const session = this.sessions.get(sessionId);
+    const artifacts: ArtifactInfo[] = [];
 
     if (session) {
+      // Keep a trace nobody stopped rather than losing it with the context
+      if (session.tracing) {
+        try {
+          const trace = await this.stopTracing(sessionId);
+          if (trace) {
+            artifacts.push(trace);
+          }
+        } catch (error) {
+          console.error(`[TRACING] Could not save trace for session ${sessionId}:`, error);
+        }
+      }
+
       try {
         await session.page.close();
         await session.context.close();
@@ -163,23 +368,52 @@ class BrowserManager {
         console.error(`[SESSION] Error closing session ${sessionId}:`, error);
       }
 
+      // Videos are only complete once their pages have closed
+      artifacts.push(...(await this.saveVideos(sessionId, session)));
       this.sessions.delete(sessionId);
     }
 
-    if (this.sessions.size === 0) {
-      await this.closeBrowser();
+    // A browser goes once its last session does
+    if (session && !Array.from(this.sessions.values()).some((s) => s.browser === session.browser)) {
+      await this.closeBrowser(this.browserKey(session.engine, session.headless));
+    }
+    return artifacts;
+  }
+
+  private async saveVideos(sessionId: string, session: BrowserSession): Promise<ArtifactInfo[]> {
+    const ownerId = session.artifactOwnerId || sessionId;
+    const saved: ArtifactInfo[] = [];
+
+    for (const [index, video] of (session.videos || []).entries()) {
+      try {
+        const name = artifactStore.timestampedName(`video-${index + 1}`, "webm");
+        await video.saveAs(artifactStore.reservePath(ownerId, name));
+        await video.delete();
+        saved.push(artifactStore.describe(ownerId, name));
+        console.log(`[VIDEO] Saved video for session ${sessionId} as ${ownerId}/${name}`);
+      } catch (error) {
+        console.error(`[VIDEO] Could not save video for session ${sessionId}:`, error);
+      }
     }
+    return saved;
   }
 
-  private async closeBrowser(): Promise<void> {
-    if (this.browserInstance) {
+  private async closeBrowser(key: string): Promise<void> {
+    const browser = this.browsers.get(key);
+    if (browser) {
+      this.browsers.delete(key);
       try {
-        await this.browserInstance.close();
-        console.log("[BROWSER] Browser closed");
+        await browser.close();
+        console.log(`[BROWSER] Browser ${key} closed`);
       } catch (error) {
-        console.error("[BROWSER] Error closing browser:", error);
+        console.error(`[BROWSER] Error closing browser ${key}:`, error);
       }
-      this.browserInstance = null;
+    }
+  }
+
+  private async closeBrowsers(): Promise<void> {
+    for (const key of Array.from(this.browsers.keys())) {
+      await this.closeBrowser(key);
     }
   }
 
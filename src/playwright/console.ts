@@ -0,0 +1,58 @@
+import { BrowserContext } from "playwright";
+import { BrowserSession, ConsoleEntry, ConsoleLog, ConsoleLogFilter } from "../types";
+import { appendEntry, clearLog, createLog, lastLogId, queryLog } from "./log";
+
+function push(log: ConsoleLog, entry: Omit<ConsoleEntry, "id" | "timestamp">): void {
+  appendEntry(log, { id: log.nextId++, timestamp: new Date().toISOString(), ...entry });
+}
+
+// Buffers console messages, uncaught page errors and failed requests of every
+// page in the context
+export function attachConsoleLog(context: BrowserContext): ConsoleLog {
+  const log: ConsoleLog = createLog();
+
+  context.on("console", (message) => {
+    const { url, lineNumber, columnNumber } = message.location();
+    push(log, {
+      type: message.type(),
+      text: message.text(),
+      ...(url ? { location: `${url}:${lineNumber}:${columnNumber}` } : {}),
+      pageUrl: message.page()?.url(),
+    });
+  });
+
+  context.on("weberror", (webError) => {
+    const error = webError.error();
+    push(log, {
+      type: "pageerror",
+      text: error.message,
+      ...(error.stack ? { stack: error.stack } : {}),
+      pageUrl: webError.page()?.url(),
+    });
+  });
+
+  context.on("requestfailed", (request) => {
+    push(log, {
+      type: "requestfailed",
+      text: `${request.method()} ${request.url()} failed: ${request.failure()?.errorText || "unknown error"}`,
+      pageUrl: request.frame()?.page()?.url(),
+    });
+  });
+
+  return log;
+}
+
+export function getConsoleLogs(
+  session: BrowserSession,
+  filter: ConsoleLogFilter = {}
+): { entries: ConsoleEntry[]; total: number; dropped: number } {
+  return queryLog(session.console, filter, (entry) => !filter.types || filter.types.includes(entry.type));
+}
+
+export function clearConsoleLogs(session: BrowserSession): number {
+  return clearLog(session.console);
+}
+
+export function lastConsoleId(session: BrowserSession): number {
+  return lastLogId(session.console);
+}
@@ -0,0 +1,188 @@
+import { BrowserContextOptions, devices } from "playwright";
+import { profileStore } from "../profiles/store";
+import { BrowserEngine, ContextOptions } from "../types";
+import { isObject } from "../validation";
+
+export const COLOR_SCHEMES = ["light", "dark", "no-preference"];
+
+const MAX_DEVICE_SUGGESTIONS = 5;
+
+function isNonEmptyString(value: unknown): value is string {
+  return typeof value === "string" && value.trim().length > 0;
+}
+
+function isTimezone(value: string): boolean {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function unknownDevice(name: string): string {
+  const needle = name.toLowerCase();
+  const matches = Object.keys(devices)
+    .filter((device) => device.toLowerCase().includes(needle))
+    .slice(0, MAX_DEVICE_SUGGESTIONS);
+  return matches.length > 0
+    ? `device: unknown device "${name}" (did you mean ${matches.map((m) => `"${m}"`).join(", ")}?)`
+    : `device: unknown device "${name}" (use a Playwright device name such as "iPhone 13" or "Desktop Chrome")`;
+}
+
+// Returns one message per invalid option; an empty list means the options
+// are usable
+export function validateContextOptions(options: Record<string, any>): string[] {
+  const errors: string[] = [];
+
+  if (options.viewport !== undefined) {
+    const { viewport } = options;
+    if (
+      !isObject(viewport) ||
+      !Number.isInteger(viewport.width) ||
+      !Number.isInteger(viewport.height) ||
+      viewport.width <= 0 ||
+      viewport.height <= 0
+    ) {
+      errors.push("viewport: must be { width, height } in whole pixels");
+    }
+  }
+  if (options.device !== undefined) {
+    if (!isNonEmptyString(options.device)) {
+      errors.push("device: must be a non-empty string");
+    } else if (!isKnownDevice(options.device)) {
+      errors.push(unknownDevice(options.device));
+    }
+  }
+  for (const key of ["userAgent", "locale"]) {
+    if (options[key] !== undefined && !isNonEmptyString(options[key])) {
+      errors.push(`${key}: must be a non-empty string`);
+    }
+  }
+  if (options.timezone !== undefined) {
+    if (!isNonEmptyString(options.timezone) || !isTimezone(options.timezone)) {
+      errors.push(`timezone: must be an IANA time zone such as "Europe/Berlin"`);
+    }
+  }
+  if (options.geolocation !== undefined) {
+    const { geolocation } = options;
+    if (
+      !isObject(geolocation) ||
+      typeof geolocation.latitude !== "number" ||
+      typeof geolocation.longitude !== "number" ||
+      Math.abs(geolocation.latitude) > 90 ||
+      Math.abs(geolocation.longitude) > 180 ||
+      (geolocation.accuracy !== undefined &&
+        (typeof geolocation.accuracy !== "number" || geolocation.accuracy < 0))
+    ) {
+      errors.push("geolocation: must be { latitude, longitude, accuracy? } with valid coordinates");
+    }
+  }
+  if (options.permissions !== undefined) {
+    if (!Array.isArray(options.permissions) || options.permissions.some((p: unknown) => !isNonEmptyString(p))) {
+      errors.push("permissions: must be an array of permission names, e.g. [\"geolocation\"]");
+    }
+  }
+  if (options.colorScheme !== undefined && !COLOR_SCHEMES.includes(options.colorScheme)) {
+    errors.push(`colorScheme: must be one of ${COLOR_SCHEMES.join(", ")}`);
+  }
+  if (options.httpCredentials !== undefined) {
+    const { httpCredentials } = options;
+    if (
+      !isObject(httpCredentials) ||
+      typeof httpCredentials.username !== "string" ||
+      typeof httpCredentials.password !== "string"
+    ) {
+      errors.push("httpCredentials: must be { username, password }");
+    }
+  }
+  if (options.proxy !== undefined) {
+    const { proxy } = options;
+    if (!isObject(proxy) || !isNonEmptyString(proxy.server)) {
+      errors.push("proxy: must be { server, bypass?, username?, password? }");
+    } else {
+      for (const key of ["bypass", "username", "password"]) {
+        if (proxy[key] !== undefined && typeof proxy[key] !== "string") {
+          errors.push(`proxy.${key}: must be a string`);
+        }
+      }
+    }
+  }
+  if (options.profile !== undefined && !profileStore.exists(options.profile)) {
+    errors.push(`profile: no saved profile "${options.profile}" (save one with save_profile)`);
+  }
+
+  return errors;
+}
+
+// A copy of the options that can be logged, with the proxy and HTTP
+// passwords masked
+export function redactCredentials(options: Record<string, any>): Record<string, any> {
+  const redacted = { ...options };
+  for (const key of ["httpCredentials", "proxy"]) {
+    if (isObject(redacted[key]) && redacted[key].password !== undefined) {
+      redacted[key] = { ...redacted[key], password: "****" };
+    }
+  }
+  return redacted;
+}
+
+// Own keys only, so names like "toString" or "__proto__" aren't taken for devices
+function isKnownDevice(device: string): boolean {
+  return Object.prototype.hasOwnProperty.call(devices, device);
+}
+
+// The engine a device descriptor was made for, e.g. webkit for iPhones
+export function deviceEngine(device?: string): BrowserEngine | undefined {
+  return device && isKnownDevice(device)
+    ? (devices[device].defaultBrowserType as BrowserEngine)
+    : undefined;
+}
+
+// Starts from the device descriptor, if any, so explicit options override
+// what the device sets (e.g. a custom viewport on an emulated phone)
+export function buildContextOptions(options: ContextOptions): BrowserContextOptions {
+  const contextOptions: BrowserContextOptions = {};
+
+  if (options.device) {
+    if (!isKnownDevice(options.device)) {
+      throw new Error(unknownDevice(options.device));
+    }
+    const { defaultBrowserType, ...emulation } = devices[options.device];
+    Object.assign(contextOptions, emulation);
+  }
+  if (options.viewport) {
+    contextOptions.viewport = options.viewport;
+  }
+  if (options.userAgent) {
+    contextOptions.userAgent = options.userAgent;
+  }
+  if (options.locale) {
+    contextOptions.locale = options.locale;
+  }
+  if (options.timezone) {
+    contextOptions.timezoneId = options.timezone;
+  }
+  if (options.geolocation) {
+    contextOptions.geolocation = options.geolocation;
+  }
+  if (options.permissions) {
+    contextOptions.permissions = options.permissions;
+  }
+  if (options.colorScheme) {
+    contextOptions.colorScheme = options.colorScheme;
+  }
+  if (options.httpCredentials) {
+    contextOptions.httpCredentials = options.httpCredentials;
+  }
+  if (options.proxy) {
+    contextOptions.proxy = options.proxy;
+  }
+  if (options.profile) {
+    if (!profileStore.exists(options.profile)) {
+      throw new Error(`Profile "${options.profile}" not found. Save it with save_profile first`);
+    }
+    contextOptions.storageState = profileStore.filePath(options.profile);
+  }
+  return contextOptions;
+}
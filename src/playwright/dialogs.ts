@@ -0,0 +1,99 @@
+import { Dialog } from "playwright";
+import { BrowserSession, DialogEntry, DialogPolicy } from "../types";
+
+export const DIALOG_ACTIONS = ["accept", "dismiss"];
+
+// Playwright dismisses dialogs when nothing handles them, so that stays the
+// default
+const DEFAULT_DIALOG_POLICY: DialogPolicy = { action: "dismiss" };
+// Only the most recent dialogs are kept
+const MAX_DIALOG_ENTRIES = 100;
+
+export function validateDialogPolicy(policy: any): string[] {
+  const errors: string[] = [];
+  if (!DIALOG_ACTIONS.includes(policy?.action)) {
+    errors.push(`action: must be one of ${DIALOG_ACTIONS.join(", ")}`);
+  }
+  if (policy?.promptText !== undefined && typeof policy.promptText !== "string") {
+    errors.push("promptText: must be a string");
+  }
+  if (policy?.once !== undefined && typeof policy.once !== "boolean") {
+    errors.push("once: must be a boolean");
+  }
+  return errors;
+}
+
+async function handleDialog(session: BrowserSession, dialog: Dialog): Promise<void> {
+  const policy = session.dialogPolicy ?? DEFAULT_DIALOG_POLICY;
+  if (policy.once) {
+    session.dialogPolicy = session.previousDialogPolicy;
+    session.previousDialogPolicy = undefined;
+  }
+
+  const entry: DialogEntry = {
+    type: dialog.type(),
+    message: dialog.message(),
+    ...(dialog.type() === "prompt" ? { defaultValue: dialog.defaultValue() } : {}),
+    action: policy.action,
+    ...(policy.action === "accept" && policy.promptText !== undefined && dialog.type() === "prompt"
+      ? { promptText: policy.promptText }
+      : {}),
+    pageUrl: dialog.page()?.url(),
+    timestamp: new Date().toISOString(),
+  };
+  session.dialogs = [...(session.dialogs ?? []), entry].slice(-MAX_DIALOG_ENTRIES);
+  console.log(`[DIALOG] ${entry.action === "accept" ? "Accepted" : "Dismissed"} ${entry.type}: ${entry.message}`);
+
+  if (policy.action === "accept") {
+    await dialog.accept(policy.promptText);
+  } else {
+    await dialog.dismiss();
+  }
+}
+
+// Answers alert, confirm, prompt and beforeunload dialogs of every page in
+// the session by its dialog policy, and records them
+export function attachDialogHandler(session: BrowserSession): void {
+  session.context.on("dialog", (dialog) => {
+    handleDialog(session, dialog).catch((error) => {
+      // The page may have closed with the dialog still open
+      console.warn(`[DIALOG] Could not handle ${dialog.type()} dialog:`, error);
+    });
+  });
+}
+
+// With once, the policy only applies to the next dialog and the current one
+// comes back afterwards
+export function setDialogPolicy(session: BrowserSession, policy: DialogPolicy): DialogPolicy {
+  const errors = validateDialogPolicy(policy);
+  if (errors.length > 0) {
+    throw new Error(`Invalid dialog policy: ${errors.join("; ")}`);
+  }
+
+  const current = getDialogPolicy(session);
+  if (policy.once) {
+    session.previousDialogPolicy = session.dialogPolicy?.once
+      ? session.previousDialogPolicy
+      : session.dialogPolicy;
+  } else {
+    session.previousDialogPolicy = undefined;
+  }
+  session.dialogPolicy = {
+    action: policy.action,
+    ...(policy.promptText !== undefined ? { promptText: policy.promptText } : {}),
+    ...(policy.once ? { once: true } : {}),
+  };
+  return current;
+}
+
+export function getDialogPolicy(session: BrowserSession): DialogPolicy {
+  return session.dialogPolicy ?? DEFAULT_DIALOG_POLICY;
+}
+
+export function getDialogs(session: BrowserSession, clear = false): DialogEntry[] {
+  const dialogs = session.dialogs ?? [];
+  if (clear) {
+    session.dialogs = [];
+  }
+  return dialogs;
+}
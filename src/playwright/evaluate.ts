@@ -0,0 +1,42 @@
+import { Page } from "playwright";
+
+export const DEFAULT_EVALUATE_TIMEOUT = 5000;
+export const MAX_EVALUATE_TIMEOUT = 60000;
+
+export class EvaluateTimeoutError extends Error {
+  constructor(timeout: number) {
+    super(`Script did not finish within ${timeout}ms`);
+    this.name = "EvaluateTimeoutError";
+  }
+}
+
+// Running arbitrary page scripts is off unless the server is started with
+// ENABLE_EVALUATE=true
+export function isEvaluateEnabled(): boolean {
+  return process.env.ENABLE_EVALUATE === "true";
+}
+
+// Runs `body` as the body of an async function with the JSON `args` in scope
+// as `args`, e.g. "return document.querySelectorAll(args.selector).length".
+// Passed as a string expression, so it also works on pages whose CSP forbids
+// eval.
+export async function evaluateScript(
+  page: Page,
+  body: string,
+  args: Record<string, any> = {},
+  timeout: number = DEFAULT_EVALUATE_TIMEOUT
+): Promise<any> {
+  const expression = `(async (args) => {\n${body}\n})(${JSON.stringify(args)})`;
+
+  let timer: NodeJS.Timeout | undefined;
+  try {
+    return await Promise.race([
+      page.evaluate(expression),
+      new Promise((_, reject) => {
+        timer = setTimeout(() => reject(new EvaluateTimeoutError(timeout)), timeout);
+      }),
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+}
@@ -0,0 +1,96 @@
+import { Page } from "playwright";
+
+const DEFAULT_QUERY_LIMIT = 100;
+
+// Text as rendered, so hidden elements and markup are left out
+export async function getText(page: Page, selector?: string): Promise<string> {
+  if (!selector) {
+    return page.innerText("body");
+  }
+  return page.locator(selector).first().innerText();
+}
+
+export async function getHtml(
+  page: Page,
+  selector?: string,
+  outer: boolean = true
+): Promise<string> {
+  if (!selector) {
+    return page.content();
+  }
+  const element = page.locator(selector).first();
+  return outer ? element.evaluate((el) => el.outerHTML) : element.innerHTML();
+}
+
+// One object per matching element. "text", "html" and "value" read the
+// element's rendered text, inner HTML and current value; any other name is
+// read as an attribute (null when missing).
+export async function queryAll(
+  page: Page,
+  selector: string,
+  attributes: string[] = ["text"],
+  limit: number = DEFAULT_QUERY_LIMIT
+): Promise<Record<string, string | null>[]> {
+  return page.$$eval(
+    selector,
+    (elements, { attributes, limit }) =>
+      elements.slice(0, limit).map((el) => {
+        const item: Record<string, string | null> = {};
+        for (const name of attributes) {
+          if (name === "text") {
+            item.text = ((el as HTMLElement).innerText ?? el.textContent ?? "").trim();
+          } else if (name === "html") {
+            item.html = el.innerHTML;
+          } else if (name === "value") {
+            item.value = "value" in el ? String((el as HTMLInputElement).value) : null;
+          } else {
+            item[name] = el.getAttribute(name);
+          }
+        }
+        return item;
+      }),
+    { attributes, limit }
+  );
+}
+
+// Turns a <table> into one object per body row, keyed by the header cells.
+// Headers come from <thead>, or else from the first row; blank or repeated
+// headers become column_<n>.
+export async function extractTable(
+  page: Page,
+  selector: string
+): Promise<Record<string, string>[]> {
+  return page.locator(selector).first().evaluate((table) => {
+    if (table.tagName !== "TABLE") {
+      throw new Error(`Element is a <${table.tagName.toLowerCase()}>, not a <table>`);
+    }
+
+    const cellText = (cell: Element) =>
+      ((cell as HTMLElement).innerText ?? cell.textContent ?? "").replace(/\s+/g, " ").trim();
+    const rows = Array.from((table as HTMLTableElement).rows);
+    const headerRow = (table as HTMLTableElement).tHead?.rows[0] ?? rows[0];
+    if (!headerRow) {
+      return [];
+    }
+
+    const seen = new Set<string>();
+    const headers = Array.from(headerRow.cells).map((cell, i) => {
+      let header = cellText(cell);
+      if (!header || seen.has(header)) {
+        header = `column_${i + 1}`;
+      }
+      seen.add(header);
+      return header;
+    });
+
+    return rows
+      .filter((row) => row !== headerRow && row.parentElement?.tagName !== "THEAD")
+      .map((row) => {
+        const record: Record<string, string> = {};
+        Array.from(row.cells).forEach((cell, i) => {
+          record[headers[i] ?? `column_${i + 1}`] = cellText(cell);
+        });
+        return record;
+      });
+  });
+}
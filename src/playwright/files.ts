@@ -0,0 +1,165 @@
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as path from "path";
+import { Download } from "playwright";
+import { artifactStore } from "../artifacts/store";
+import { BrowserSession, DownloadResult, UploadFileSpec } from "../types";
+import { isObject } from "../validation";
+
+// Decoded size limit for each base64 upload
+export const MAX_UPLOAD_SIZE = 20 * 1024 * 1024;
+
+function uploadsDirectory(): string {
+  return process.env.UPLOADS_DIR || path.join(__dirname, "../../uploads");
+}
+
+// Server-side files are only read from the uploads directory
+export function uploadPath(relativePath: string): string {
+  const directory = path.resolve(uploadsDirectory());
+  const filePath = path.resolve(directory, relativePath);
+  if (!filePath.startsWith(directory + path.sep)) {
+    throw new Error(`Invalid upload path "${relativePath}": it must be inside the uploads directory`);
+  }
+  return filePath;
+}
+
+// Checks upload specs before any file is read; `where` names the list in the
+// messages, e.g. steps[2].arguments.files
+export function validateUploadFiles(files: any, where: string = "files"): string[] {
+  if (!Array.isArray(files)) {
+    return [`${where}: must be an array of { path } or { name, base64, mimeType? } objects`];
+  }
+
+  const errors: string[] = [];
+  files.forEach((file: any, i: number) => {
+    const at = `${where}[${i}]`;
+    if (!isObject(file)) {
+      errors.push(`${at}: must be an object`);
+    } else if (file.path !== undefined) {
+      if (typeof file.path !== "string" || !file.path) {
+        errors.push(`${at}.path: must be a path inside the uploads directory`);
+      }
+      if (file.base64 !== undefined) {
+        errors.push(`${at}: use either path or base64, not both`);
+      }
+    } else if (typeof file.base64 !== "string") {
+      errors.push(`${at}: needs a path, or base64 content with a name`);
+    } else {
+      if (typeof file.name !== "string" || !file.name) {
+        errors.push(`${at}.name: is required with base64`);
+      }
+      if (file.mimeType !== undefined && typeof file.mimeType !== "string") {
+        errors.push(`${at}.mimeType: must be a string`);
+      }
+    }
+  });
+  // Playwright takes either paths or contents for one input
+  const withPath = files.filter((file: any) => isObject(file) && file.path !== undefined).length;
+  if (withPath > 0 && withPath < files.length) {
+    errors.push(`${where}: use either paths or base64 contents for all files, not a mix`);
+  }
+  return errors;
+}
+
+function toLocalPath(file: UploadFileSpec): string {
+  const filePath = uploadPath(file.path!);
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`Upload file "${file.path}" not found in ${uploadsDirectory()}`);
+  }
+  return filePath;
+}
+
+function toFilePayload(file: UploadFileSpec): { name: string; mimeType: string; buffer: Buffer } {
+  const buffer = Buffer.from(file.base64!, "base64");
+  if (buffer.length > MAX_UPLOAD_SIZE) {
+    throw new Error(`Upload file "${file.name}" is larger than ${MAX_UPLOAD_SIZE} bytes`);
+  }
+  return { name: file.name!, mimeType: file.mimeType || "application/octet-stream", buffer };
+}
+
+// Sets the files of an <input type="file">; an empty list clears it
+export async function uploadFiles(
+  session: BrowserSession,
+  selector: string,
+  files: UploadFileSpec[]
+): Promise<string[]> {
+  const errors = validateUploadFiles(files);
+  if (errors.length > 0) {
+    throw new Error(`Invalid files: ${errors.join("; ")}`);
+  }
+
+  const options = { timeout: 30000 };
+  if (files.some((file) => file.path !== undefined)) {
+    await session.page.setInputFiles(selector, files.map(toLocalPath), options);
+  } else {
+    await session.page.setInputFiles(selector, files.map(toFilePayload), options);
+  }
+  return files.map((file) => file.name ?? path.basename(file.path!));
+}
+
+// Suggested names can contain anything, so keep them to what artifact names
+// allow
+function artifactName(suggested: string): string {
+  const name = suggested.replace(/[^A-Za-z0-9_.-]/g, "_").replace(/^[.]+/, "_") || "download";
+  return name.slice(-200);
+}
+
+function uniqueName(ownerId: string, name: string): string {
+  if (!artifactStore.exists(ownerId, name)) {
+    return name;
+  }
+  const extension = path.extname(name);
+  return `${path.basename(name, extension)}-${Date.now()}${extension}`;
+}
+
+async function saveDownload(
+  download: Download,
+  ownerId: string,
+  requestedName?: string
+): Promise<DownloadResult> {
+  const suggestedFilename = download.suggestedFilename();
+  const name = requestedName || uniqueName(ownerId, artifactName(suggestedFilename));
+  const filePath = artifactStore.reservePath(ownerId, name);
+  await download.saveAs(filePath);
+
+  const failure = await download.failure();
+  if (failure) {
+    artifactStore.delete(ownerId, name);
+    throw new Error(`Download of ${suggestedFilename} failed: ${failure}`);
+  }
+
+  const sha256 = crypto.createHash("sha256").update(fs.readFileSync(filePath)).digest("hex");
+  console.log(`[FILES] Saved download ${suggestedFilename} as ${ownerId}/${name}`);
+  return {
+    artifact: artifactStore.describe(ownerId, name),
+    suggestedFilename,
+    sourceUrl: download.url(),
+    sha256,
+  };
+}
+
+// Runs trigger, e.g. a click, and saves the download it starts as an
+// artifact of ownerId
+export async function downloadFile(
+  session: BrowserSession,
+  trigger: () => Promise<void>,
+  options: { ownerId: string; name?: string; timeout: number }
+): Promise<DownloadResult> {
+  if (options.name !== undefined && !artifactStore.isValidFileName(options.name)) {
+    throw new Error(`Invalid file name "${options.name}": use letters, digits, ".", "-" and "_"`);
+  }
+
+  let download: Download;
+  try {
+    [download] = await Promise.all([
+      session.page.waitForEvent("download", { timeout: options.timeout }),
+      trigger(),
+    ]);
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError" && /download/.test(error.message)) {
+      throw new Error(`No download started within ${options.timeout}ms`);
+    }
+    throw error;
+  }
+  return saveDownload(download, options.ownerId, options.name);
+}
@@ -0,0 +1,100 @@
+import { Page } from "playwright";
+
+export const MOUSE_BUTTONS = ["left", "right", "middle"];
+
+// Presses a key or combination such as "Enter" or "Control+A", on the
+// element when a selector is given, or else wherever the focus is
+export async function pressKey(
+  page: Page,
+  key: string,
+  selector?: string,
+  timeout?: number
+): Promise<void> {
+  if (typeof key !== "string" || !key) {
+    throw new Error('Key must be a key name or combination, e.g. "Enter" or "Control+A"');
+  }
+  if (selector) {
+    await page.press(selector, key, { timeout });
+  } else {
+    await page.keyboard.press(key);
+  }
+}
+
+function toStringList(value: unknown, name: string): string[] | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const list = Array.isArray(value) ? value : [value];
+  if (list.some((item) => typeof item !== "string")) {
+    throw new Error(`${name} must be a string or an array of strings`);
+  }
+  return list;
+}
+
+// Picks options of a <select> by value or by visible label. Returns the
+// values that ended up selected.
+export async function selectOptions(
+  page: Page,
+  selector: string,
+  options: { values?: unknown; labels?: unknown },
+  timeout?: number
+): Promise<string[]> {
+  const values = toStringList(options.values, "values");
+  const labels = toStringList(options.labels, "labels");
+  if (!values === !labels) {
+    throw new Error("Pass either values or labels");
+  }
+  const choices = values ?? labels!.map((label) => ({ label }));
+  return page.selectOption(selector, choices, { timeout });
+}
+
+// Checks or unchecks a checkbox or radio button; returns its new state
+export async function setChecked(
+  page: Page,
+  selector: string,
+  checked: boolean,
+  timeout?: number
+): Promise<boolean> {
+  await page.setChecked(selector, checked, { timeout });
+  return page.isChecked(selector);
+}
+
+export async function dragAndDrop(
+  page: Page,
+  source: string,
+  target: string,
+  timeout?: number
+): Promise<void> {
+  await page.dragAndDrop(source, target, { timeout });
+}
+
+export async function scrollIntoView(page: Page, selector: string, timeout?: number): Promise<void> {
+  await page.locator(selector).first().scrollIntoViewIfNeeded({ timeout });
+}
+
+// Clicks at page coordinates, for canvases and other targets without an
+// element to select
+export async function mouseClick(
+  page: Page,
+  x: number,
+  y: number,
+  options: { button?: string; clickCount?: number } = {}
+): Promise<void> {
+  if (typeof x !== "number" || typeof y !== "number" || x < 0 || y < 0) {
+    throw new Error("x and y must be non-negative numbers of CSS pixels");
+  }
+  if (options.button !== undefined && !MOUSE_BUTTONS.includes(options.button)) {
+    throw new Error(`button must be one of ${MOUSE_BUTTONS.join(", ")}`);
+  }
+  if (
+    options.clickCount !== undefined &&
+    (!Number.isInteger(options.clickCount) || options.clickCount < 1)
+  ) {
+    throw new Error("clickCount must be a positive whole number");
+  }
+
+  await page.mouse.click(x, y, {
+    button: options.button as "left" | "right" | "middle" | undefined,
+    clickCount: options.clickCount,
+  });
+}
@@ -0,0 +1,56 @@
+import { BoundedLog, LogWindow } from "../types";
+
+// Oldest entries are dropped beyond this, so chatty pages and long sessions
+// don't grow forever
+export const MAX_LOG_ENTRIES = 1000;
+const DEFAULT_LOG_LIMIT = 100;
+
+export function createLog<T>(): BoundedLog<T> {
+  return { entries: [], nextId: 1, dropped: 0 };
+}
+
+export function appendEntry<T>(log: BoundedLog<T>, entry: T): void {
+  log.entries.push(entry);
+  if (log.entries.length > MAX_LOG_ENTRIES) {
+    log.entries.shift();
+    log.dropped++;
+  }
+}
+
+// The entries that match, newest last; `limit` keeps the most recent ones and
+// `total` counts all of them
+export function queryLog<T extends { id: number }>(
+  log: BoundedLog<T> | undefined,
+  window: LogWindow,
+  matches: (entry: T) => boolean = () => true
+): { entries: T[]; total: number; dropped: number } {
+  if (!log) {
+    return { entries: [], total: 0, dropped: 0 };
+  }
+
+  const matching = log.entries.filter(
+    (entry) => (window.sinceId === undefined || entry.id > window.sinceId) && matches(entry)
+  );
+  const limit = window.limit ?? DEFAULT_LOG_LIMIT;
+  return {
+    entries: matching.slice(Math.max(matching.length - limit, 0)),
+    total: matching.length,
+    dropped: log.dropped,
+  };
+}
+
+// Returns how many entries were removed
+export function clearLog<T>(log: BoundedLog<T> | undefined): number {
+  if (!log) {
+    return 0;
+  }
+  const cleared = log.entries.length;
+  log.entries = [];
+  log.dropped = 0;
+  return cleared;
+}
+
+// ID of the newest entry, to find out later what was added since
+export function lastLogId<T>(log: BoundedLog<T> | undefined): number {
+  return log ? log.nextId - 1 : 0;
+}
@@ -0,0 +1,212 @@
+import * as fs from "fs";
+import * as path from "path";
+import { BrowserContext, Route } from "playwright";
+import { BrowserSession, RouteRule, RouteRuleSpec } from "../types";
+import { isObject } from "../validation";
+
+export const ROUTE_ACTIONS = ["fulfill", "abort", "delay"];
+
+export const RESOURCE_TYPES = [
+  "document", "stylesheet", "image", "media", "font", "script", "texttrack", "xhr",
+  "fetch", "eventsource", "websocket", "manifest", "other",
+];
+
+export const ABORT_ERROR_CODES = [
+  "aborted", "accessdenied", "addressunreachable", "blockedbyclient", "blockedbyresponse",
+  "connectionaborted", "connectionclosed", "connectionfailed", "connectionrefused",
+  "connectionreset", "internetdisconnected", "namenotresolved", "timedout", "failed",
+];
+
+// HAR files are looked up by bare name: no separators and no leading dot
+const HAR_NAME_PATTERN = /^[A-Za-z0-9_-][A-Za-z0-9_.-]*\.(har|zip)$/;
+
+function mocksDirectory(): string {
+  return process.env.MOCKS_DIR || path.join(__dirname, "../../mocks");
+}
+
+export function harPath(name: string): string {
+  if (typeof name !== "string" || !HAR_NAME_PATTERN.test(name)) {
+    throw new Error(`Invalid HAR file name "${name}": expected a .har or .zip file in the mocks directory`);
+  }
+  return path.join(mocksDirectory(), name);
+}
+
+// An empty list means the rule can be added; `where` locates the rule in the
+// messages, e.g. routes[1]
+export function validateRouteRule(spec: any, where: string = "route"): string[] {
+  const errors: string[] = [];
+  if (!isObject(spec)) {
+    return [`${where}: must be an object`];
+  }
+
+  if (spec.url !== undefined && spec.urlRegex !== undefined) {
+    errors.push(`${where}: use either url or urlRegex, not both`);
+  }
+  if (spec.url !== undefined && (typeof spec.url !== "string" || !spec.url)) {
+    errors.push(`${where}.url: must be a non-empty glob such as "**/api/*"`);
+  }
+  if (spec.urlRegex !== undefined) {
+    try {
+      new RegExp(spec.urlRegex);
+    } catch {
+      errors.push(`${where}.urlRegex: is not a valid regular expression`);
+    }
+  }
+  if (
+    spec.resourceTypes !== undefined &&
+    (!Array.isArray(spec.resourceTypes) ||
+      spec.resourceTypes.some((type: any) => !RESOURCE_TYPES.includes(type)))
+  ) {
+    errors.push(`${where}.resourceTypes: must be an array of ${RESOURCE_TYPES.join(", ")}`);
+  }
+  if (spec.delay !== undefined && (typeof spec.delay !== "number" || spec.delay < 0)) {
+    errors.push(`${where}.delay: must be a non-negative number of milliseconds`);
+  }
+
+  if (spec.har !== undefined) {
+    if (spec.action !== undefined) {
+      errors.push(`${where}: use either action or har, not both`);
+    }
+    if (spec.urlRegex !== undefined || spec.resourceTypes !== undefined || spec.delay !== undefined) {
+      errors.push(`${where}: a har rule only supports url and notFound`);
+    }
+    if (typeof spec.har !== "string" || !HAR_NAME_PATTERN.test(spec.har)) {
+      errors.push(`${where}.har: must be the name of a .har or .zip file in the mocks directory`);
+    }
+    if (spec.notFound !== undefined && !["abort", "fallback"].includes(spec.notFound)) {
+      errors.push(`${where}.notFound: must be "abort" or "fallback"`);
+    }
+    return errors;
+  }
+
+  if (!ROUTE_ACTIONS.includes(spec.action)) {
+    errors.push(`${where}.action: must be one of ${ROUTE_ACTIONS.join(", ")}, or give a har file instead`);
+  }
+  if (spec.action === "fulfill") {
+    if (
+      spec.status !== undefined &&
+      (!Number.isInteger(spec.status) || spec.status < 100 || spec.status > 599)
+    ) {
+      errors.push(`${where}.status: must be an HTTP status code`);
+    }
+    if (spec.body !== undefined && typeof spec.body !== "string") {
+      errors.push(`${where}.body: must be a string; use json for objects`);
+    }
+    if (spec.body !== undefined && spec.json !== undefined) {
+      errors.push(`${where}: use either body or json, not both`);
+    }
+    if (
+      spec.headers !== undefined &&
+      (!isObject(spec.headers) || Object.values(spec.headers).some((v) => typeof v !== "string"))
+    ) {
+      errors.push(`${where}.headers: must be an object of strings`);
+    }
+    if (spec.contentType !== undefined && typeof spec.contentType !== "string") {
+      errors.push(`${where}.contentType: must be a string`);
+    }
+  }
+  if (spec.action === "abort" && spec.errorCode !== undefined && !ABORT_ERROR_CODES.includes(spec.errorCode)) {
+    errors.push(`${where}.errorCode: must be one of ${ABORT_ERROR_CODES.join(", ")}`);
+  }
+  if (spec.action === "delay" && typeof spec.delay !== "number") {
+    errors.push(`${where}.delay: is required for a delay rule`);
+  }
+  return errors;
+}
+
+async function handleRoute(rule: RouteRule, route: Route): Promise<void> {
+  const request = route.request();
+  if (rule.resourceTypes && !rule.resourceTypes.includes(request.resourceType())) {
+    return route.fallback();
+  }
+
+  rule.hits++;
+  if (rule.delay) {
+    await new Promise((resolve) => setTimeout(resolve, rule.delay));
+  }
+  switch (rule.action) {
+    case "abort":
+      return route.abort(rule.errorCode);
+    case "fulfill":
+      return route.fulfill({
+        status: rule.status ?? 200,
+        headers: rule.headers,
+        contentType: rule.contentType,
+        ...(rule.json !== undefined ? { json: rule.json } : { body: rule.body ?? "" }),
+      });
+    default:
+      // A delay rule lets earlier rules, or the network, answer afterwards
+      return route.fallback();
+  }
+}
+
+async function registerRule(context: BrowserContext, rule: RouteRule): Promise<void> {
+  if (rule.har) {
+    await context.routeFromHAR(harPath(rule.har), {
+      url: rule.url,
+      notFound: rule.notFound ?? "abort",
+    });
+    return;
+  }
+
+  const url = rule.urlRegex !== undefined ? new RegExp(rule.urlRegex) : rule.url ?? "**/*";
+  await context.route(url, async (route) => {
+    try {
+      await handleRoute(rule, route);
+    } catch (error) {
+      // The page may have closed while the rule was delaying
+      console.warn(`[ROUTES] Rule ${rule.id} could not handle ${route.request().url()}:`, error);
+    }
+  });
+}
+
+// Rules apply to every page of the session; the most recently added rule that
+// matches a request handles it
+export async function addRouteRule(session: BrowserSession, spec: RouteRuleSpec): Promise<RouteRule> {
+  const errors = validateRouteRule(spec);
+  if (errors.length > 0) {
+    throw new Error(`Invalid route rule: ${errors.join("; ")}`);
+  }
+  if (spec.har && !fs.existsSync(harPath(spec.har))) {
+    throw new Error(`HAR file "${spec.har}" not found in ${mocksDirectory()}`);
+  }
+
+  session.nextRouteId = (session.nextRouteId ?? 0) + 1;
+  const rule: RouteRule = {
+    ...spec,
+    id: `r${session.nextRouteId}`,
+    hits: 0,
+    createdAt: new Date().toISOString(),
+  };
+  await registerRule(session.context, rule);
+  session.routes = [...(session.routes ?? []), rule];
+  console.log(`[ROUTES] Added rule ${rule.id} (${describeRule(rule)})`);
+  return rule;
+}
+
+export function listRouteRules(session: BrowserSession): RouteRule[] {
+  return session.routes ?? [];
+}
+
+// Removes one rule, or all of them without an ID. Playwright cannot remove a
+// single HAR route, so the remaining rules are registered again.
+export async function removeRouteRules(session: BrowserSession, id?: string): Promise<RouteRule[]> {
+  const rules = session.routes ?? [];
+  const removed = id === undefined ? rules : rules.filter((rule) => rule.id === id);
+  if (id !== undefined && removed.length === 0) {
+    throw new Error(`No route rule "${id}". Rules: ${rules.map((rule) => rule.id).join(", ") || "none"}`);
+  }
+
+  session.routes = rules.filter((rule) => !removed.includes(rule));
+  await session.context.unrouteAll({ behavior: "ignoreErrors" });
+  for (const rule of session.routes) {
+    await registerRule(session.context, rule);
+  }
+  console.log(`[ROUTES] Removed ${removed.map((rule) => rule.id).join(", ") || "no rules"}`);
+  return removed;
+}
+
+function describeRule(rule: RouteRule): string {
+  const target = rule.urlRegex !== undefined ? `/${rule.urlRegex}/` : rule.url ?? "**/*";
+  return rule.har ? `${target} from ${rule.har}` : `${rule.action} ${target}`;
+}
@@ -0,0 +1,282 @@
+import * as fs from "fs";
+import { BrowserContext, Request, Response } from "playwright";
+import { artifactStore } from "../artifacts/store";
+import {
+  ArtifactInfo,
+  BrowserSession,
+  NetworkEntry,
+  NetworkLog,
+  NetworkLogFilter,
+  ResponseMatcher,
+} from "../types";
+import { secretStore } from "../workflows/secrets";
+import { MAX_LOG_ENTRIES, appendEntry, clearLog, createLog, queryLog } from "./log";
+
+// Bodies are only kept when they are text and no larger than this
+const MAX_BODY_SIZE = 64 * 1024;
+const TEXT_CONTENT_TYPE = /^(text\/|application\/([\w.+-]*\+)?(json|xml|javascript|x-www-form-urlencoded))/i;
+
+function clipBody(body: string): string {
+  return body.length > MAX_BODY_SIZE ? `${body.slice(0, MAX_BODY_SIZE)}…(truncated)` : body;
+}
+
+function isTextContent(headers: Record<string, string>): boolean {
+  return TEXT_CONTENT_TYPE.test(headers["content-type"] || "");
+}
+
+async function recordResponse(
+  log: NetworkLog,
+  entry: NetworkEntry,
+  response: Response,
+  started: number
+): Promise<void> {
+  entry.status = response.status();
+  entry.statusText = response.statusText();
+  entry.responseHeaders = response.headers();
+  entry.duration = Date.now() - started;
+
+  const contentLength = Number(entry.responseHeaders["content-length"]);
+  if (Number.isFinite(contentLength)) {
+    entry.size = contentLength;
+  }
+  if (log.captureBodies && isTextContent(entry.responseHeaders)) {
+    try {
+      const body = await response.body();
+      entry.size = body.length;
+      entry.responseBody = clipBody(body.toString("utf-8"));
+    } catch {
+      // Bodies of redirects and of closed pages are not available
+    }
+  }
+}
+
+// Records every request of the context, from all of its pages
+export function attachNetworkLog(
+  context: BrowserContext,
+  options: { captureBodies?: boolean } = {}
+): NetworkLog {
+  const log: NetworkLog = { ...createLog<NetworkEntry>(), captureBodies: options.captureBodies === true };
+  const pending = new WeakMap<Request, { entry: NetworkEntry; started: number }>();
+
+  context.on("request", (request) => {
+    const entry: NetworkEntry = {
+      id: log.nextId++,
+      method: request.method(),
+      url: request.url(),
+      resourceType: request.resourceType(),
+      startedAt: new Date().toISOString(),
+      requestHeaders: request.headers(),
+    };
+    const postData = request.postData();
+    if (log.captureBodies && postData) {
+      entry.requestBody = clipBody(postData);
+    }
+
+    pending.set(request, { entry, started: Date.now() });
+    appendEntry(log, entry);
+  });
+
+  context.on("requestfinished", async (request) => {
+    const tracked = pending.get(request);
+    if (!tracked) {
+      return;
+    }
+    pending.delete(request);
+    try {
+      const response = await request.response();
+      if (response) {
+        await recordResponse(log, tracked.entry, response, tracked.started);
+      }
+    } catch (error) {
+      console.warn(`[NETWORK] Could not record response for ${request.url()}:`, error);
+    }
+  });
+
+  context.on("requestfailed", (request) => {
+    const tracked = pending.get(request);
+    if (!tracked) {
+      return;
+    }
+    pending.delete(request);
+    tracked.entry.failure = request.failure()?.errorText || "failed";
+    tracked.entry.duration = Date.now() - tracked.started;
+  });
+
+  return log;
+}
+
+function matchesResponse(
+  entry: { url: string; method: string },
+  matcher: ResponseMatcher
+): boolean {
+  return (
+    (!matcher.url || entry.url.includes(matcher.url)) &&
+    (!matcher.urlRegex || new RegExp(matcher.urlRegex).test(entry.url)) &&
+    (!matcher.method || entry.method === matcher.method.toUpperCase())
+  );
+}
+
+function isFailedEntry(entry: NetworkEntry): boolean {
+  return entry.failure !== undefined || (entry.status !== undefined && entry.status >= 400);
+}
+
+// Resolved secrets, e.g. a password in a login POST, are masked in URLs,
+// headers and bodies
+export function getNetworkLog(
+  session: BrowserSession,
+  filter: NetworkLogFilter = {}
+): { entries: NetworkEntry[]; total: number; dropped: number } {
+  const log = queryLog(
+    session.network,
+    filter,
+    (entry) =>
+      matchesResponse(entry, filter) &&
+      (filter.status === undefined || entry.status === filter.status) &&
+      (!filter.failed || isFailedEntry(entry)) &&
+      (!filter.resourceTypes || filter.resourceTypes.includes(entry.resourceType))
+  );
+  return { ...log, entries: log.entries.map((entry) => secretStore.redactDeep(entry)) };
+}
+
+export function clearNetworkLog(session: BrowserSession): number {
+  return clearLog(session.network);
+}
+
+// Waits for the next response that matches, whatever its status; callers
+// check the status so a wrong one fails right away instead of timing out.
+// With lookback, a matching response that completed up to that many ms ago
+// counts too, for responses that arrive before the wait starts.
+export async function waitForResponse(
+  session: BrowserSession,
+  matcher: ResponseMatcher & { timeout: number; lookback?: number }
+): Promise<{ url: string; method: string; status: number; statusText: string; waited: number }> {
+  const started = Date.now();
+
+  if (matcher.lookback && session.network) {
+    const since = started - matcher.lookback;
+    const recent = session.network.entries
+      .filter(
+        (entry) =>
+          entry.status !== undefined &&
+          Date.parse(entry.startedAt) + (entry.duration ?? 0) >= since &&
+          matchesResponse(entry, matcher)
+      )
+      .pop();
+    if (recent) {
+      return {
+        url: secretStore.redact(recent.url),
+        method: recent.method,
+        status: recent.status!,
+        statusText: recent.statusText || "",
+        waited: 0,
+      };
+    }
+  }
+
+  let response: Response;
+  try {
+    response = await session.page.waitForResponse(
+      (candidate) =>
+        matchesResponse({ url: candidate.url(), method: candidate.request().method() }, matcher),
+      { timeout: matcher.timeout }
+    );
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError") {
+      throw new Error(`No response matching ${describeMatcher(matcher)} within ${matcher.timeout}ms`);
+    }
+    throw error;
+  }
+
+  return {
+    url: secretStore.redact(response.url()),
+    method: response.request().method(),
+    status: response.status(),
+    statusText: response.statusText(),
+    waited: Date.now() - started,
+  };
+}
+
+export function describeMatcher(matcher: ResponseMatcher): string {
+  const parts = [
+    matcher.method ? matcher.method.toUpperCase() : undefined,
+    matcher.url ? `URL containing "${matcher.url}"` : undefined,
+    matcher.urlRegex ? `URL matching /${matcher.urlRegex}/` : undefined,
+  ].filter(Boolean);
+  return parts.join(" ") || "any URL";
+}
+
+function harHeaders(headers: Record<string, string> = {}): { name: string; value: string }[] {
+  return Object.entries(headers).map(([name, value]) => ({ name, value }));
+}
+
+function harEntry(entry: NetworkEntry): Record<string, any> {
+  const url = new URL(entry.url);
+  const mimeType = entry.responseHeaders?.["content-type"] || "";
+  return {
+    startedDateTime: entry.startedAt,
+    time: entry.duration ?? -1,
+    request: {
+      method: entry.method,
+      url: entry.url,
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: harHeaders(entry.requestHeaders),
+      queryString: Array.from(url.searchParams.entries()).map(([name, value]) => ({ name, value })),
+      ...(entry.requestBody !== undefined
+        ? {
+            postData: {
+              mimeType: entry.requestHeaders?.["content-type"] || "",
+              text: entry.requestBody,
+            },
+          }
+        : {}),
+      headersSize: -1,
+      bodySize: entry.requestBody?.length ?? -1,
+    },
+    response: {
+      status: entry.status ?? 0,
+      statusText: entry.statusText ?? entry.failure ?? "",
+      httpVersion: "HTTP/1.1",
+      cookies: [],
+      headers: harHeaders(entry.responseHeaders),
+      content: {
+        size: entry.size ?? -1,
+        mimeType,
+        ...(entry.responseBody !== undefined ? { text: entry.responseBody } : {}),
+      },
+      redirectURL: entry.responseHeaders?.location ?? "",
+      headersSize: -1,
+      bodySize: entry.size ?? -1,
+    },
+    cache: {},
+    timings: { send: 0, wait: entry.duration ?? -1, receive: 0 },
+    _resourceType: entry.resourceType,
+    ...(entry.failure ? { _failure: entry.failure } : {}),
+  };
+}
+
+// Writes the logged requests as a HAR 1.2 file artifact. Requests still in
+// flight are left out. Responses only carry bodies when the session
+// captures them. Entries come from getNetworkLog, so secrets stay masked.
+export function exportHar(
+  session: BrowserSession,
+  ownerId: string,
+  name: string,
+  filter: NetworkLogFilter = {}
+): ArtifactInfo {
+  const { entries } = getNetworkLog(session, { ...filter, limit: MAX_LOG_ENTRIES });
+  const har = {
+    log: {
+      version: "1.2",
+      creator: { name: "playwright-mcp-http", version: "1.0.0" },
+      pages: [],
+      entries: entries
+        .filter((entry) => entry.status !== undefined || entry.failure !== undefined)
+        .map(harEntry),
+    },
+  };
+
+  fs.writeFileSync(artifactStore.reservePath(ownerId, name), JSON.stringify(har, null, 2));
+  console.log(`[NETWORK] Exported ${har.log.entries.length} requests as ${ownerId}/${name}`);
+  return artifactStore.describe(ownerId, name);
+}
@@ -0,0 +1,388 @@
+import { ElementHandle, Page } from "playwright";
+import { BrowserSession } from "../types";
+
+const REF_PATTERN = /^e\d+$/;
+// Refs of long-gone snapshots are forgotten beyond this, oldest first
+const MAX_REFS = 5000;
+
+export interface SnapshotOptions {
+  // Only snapshot the subtree under this selector
+  selector?: string;
+  // List only the nodes that carry a ref, without the surrounding structure
+  interactiveOnly?: boolean;
+  // First ref number to hand out to elements that do not have one yet
+  nextRef: number;
+  // Elements that got a ref from an earlier snapshot keep it
+  known: Map<string, ElementHandle>;
+}
+
+export interface PageSnapshot {
+  snapshot: string;
+  refCount: number;
+  nextRef: number;
+  // The element behind each ref in the snapshot
+  refs: Map<string, ElementHandle>;
+}
+
+export function isValidRef(ref: string): boolean {
+  return typeof ref === "string" && REF_PATTERN.test(ref);
+}
+
+function release(handle: ElementHandle): void {
+  handle.dispose().catch(() => undefined);
+}
+
+// Snapshots the active tab and keeps a handle on the element behind each ref,
+// so a ref can only ever mean the element it was given to
+export async function snapshotSession(
+  session: BrowserSession,
+  options: { selector?: string; interactiveOnly?: boolean }
+): Promise<PageSnapshot> {
+  const refs = session.refs ?? new Map();
+  const known = new Map<string, ElementHandle>();
+  for (const [ref, target] of refs) {
+    if (target.page === session.page) {
+      known.set(ref, target.element);
+    }
+  }
+
+  const snapshotOptions = { ...options, nextRef: session.nextRef ?? 1, known };
+  let result: PageSnapshot;
+  try {
+    result = await takeSnapshot(session.page, snapshotOptions);
+  } catch (error) {
+    if (known.size === 0) {
+      throw error;
+    }
+    // Handles from a document the tab has navigated away from cannot be
+    // passed back in. If the page can be snapshotted without them, those
+    // refs are stale.
+    result = await takeSnapshot(session.page, { ...snapshotOptions, known: new Map() }).catch(() => {
+      throw error;
+    });
+    for (const [ref, element] of known) {
+      refs.delete(ref);
+      release(element);
+    }
+  }
+
+  session.nextRef = result.nextRef;
+  for (const [ref, element] of result.refs) {
+    const previous = refs.get(ref);
+    if (previous) {
+      refs.delete(ref);
+      release(previous.element);
+    }
+    refs.set(ref, { page: session.page, element });
+  }
+  for (const [ref, target] of refs) {
+    if (refs.size <= MAX_REFS) {
+      break;
+    }
+    refs.delete(ref);
+    release(target.element);
+  }
+  session.refs = refs;
+  return result;
+}
+
+// Runs in the page: child positions below the nearest ancestor with an ID,
+// e.g. #login > div:nth-child(2) > button:nth-child(1), or null once the
+// element has left the document
+function selectorOf(el: Element): string | null {
+  if (!el.isConnected) {
+    return null;
+  }
+  const parts: string[] = [];
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    if (node.id && document.getElementById(node.id) === node) {
+      parts.unshift(`#${CSS.escape(node.id)}`);
+      break;
+    }
+    const parent: Element | null = node.parentElement;
+    if (!parent) {
+      parts.unshift(node.tagName.toLowerCase());
+      break;
+    }
+    const position = Array.from(parent.children).indexOf(node) + 1;
+    parts.unshift(`${node.tagName.toLowerCase()}:nth-child(${position})`);
+  }
+  return parts.join(" > ");
+}
+
+// A selector for the element behind a ref as the page is right now. Throws
+// when the ref was never handed out, or its element is gone or on another tab.
+export async function refSelector(session: BrowserSession, ref: string): Promise<string> {
+  if (!isValidRef(ref)) {
+    throw new Error(`Invalid element ref "${ref}": refs look like "e12"`);
+  }
+  const target = session.refs?.get(ref);
+  if (!target) {
+    throw new Error(`Unknown element ref "${ref}". Take a snapshot to get current refs`);
+  }
+  if (target.page !== session.page) {
+    throw new Error(`Element ref "${ref}" belongs to another tab. Switch back to it or take a new snapshot`);
+  }
+  const selector = await target.element.evaluate(selectorOf).catch(() => null);
+  if (!selector) {
+    throw new Error(`Stale element ref "${ref}": the element is no longer on the page. Take a new snapshot`);
+  }
+  return selector;
+}
+
+// Renders the page as an indented list of accessibility nodes, e.g.
+//   - heading "Sign in" [level=1]
+//   - textbox "Email" [ref=e3] [required]
+// Interactive nodes get a ref; nothing is written into the page.
+export async function takeSnapshot(page: Page, options: SnapshotOptions): Promise<PageSnapshot> {
+  const result = await page.evaluateHandle(
+    ({ selector, interactiveOnly, nextRef, knownRefs, knownElements }) => {
+      const INTERACTIVE_ROLES = new Set([
+        "button", "checkbox", "combobox", "link", "listbox", "menuitem", "menuitemcheckbox",
+        "menuitemradio", "option", "radio", "searchbox", "slider", "spinbutton", "switch",
+        "tab", "textbox", "treeitem",
+      ]);
+      const INPUT_ROLES: Record<string, string> = {
+        button: "button", submit: "button", reset: "button", image: "button",
+        checkbox: "checkbox", radio: "radio", range: "slider", number: "spinbutton",
+        search: "searchbox", email: "textbox", tel: "textbox", text: "textbox",
+        url: "textbox", password: "textbox",
+      };
+      const TAG_ROLES: Record<string, string> = {
+        article: "article", aside: "complementary", button: "button", dialog: "dialog",
+        footer: "contentinfo", form: "form", header: "banner", li: "listitem", main: "main",
+        nav: "navigation", ol: "list", option: "option", progress: "progressbar",
+        summary: "button", table: "table", td: "cell", textarea: "textbox", th: "columnheader",
+        tr: "row", ul: "list",
+      };
+      // Names from content for these roles; others are named by labels only
+      const NAMED_FROM_CONTENT = new Set([
+        "button", "cell", "columnheader", "heading", "link", "listitem", "menuitem", "option",
+        "tab", "treeitem",
+      ]);
+      const MAX_TEXT = 80;
+
+      let refCount = 0;
+      let next = nextRef;
+      const lines: string[] = [];
+      const refs: string[] = [];
+      const elements: Element[] = [];
+      const knownByElement = new Map(knownElements.map((el, i) => [el, knownRefs[i]]));
+
+      const clip = (text: string) => {
+        const clean = text.replace(/\s+/g, " ").trim();
+        return clean.length > MAX_TEXT ? `${clean.slice(0, MAX_TEXT)}…` : clean;
+      };
+
+      const isHidden = (el: Element) => {
+        if (el.getAttribute("aria-hidden") === "true" || (el as HTMLElement).hidden) {
+          return true;
+        }
+        const style = getComputedStyle(el);
+        return style.display === "none" || style.visibility === "hidden";
+      };
+
+      const roleOf = (el: Element): string | null => {
+        const explicit = el.getAttribute("role");
+        if (explicit) {
+          return explicit.split(" ")[0];
+        }
+        const tag = el.tagName.toLowerCase();
+        if (/^h[1-6]$/.test(tag)) {
+          return "heading";
+        }
+        if (tag === "a") {
+          return el.hasAttribute("href") ? "link" : null;
+        }
+        if (tag === "img") {
+          return el.getAttribute("alt") === "" ? null : "img";
+        }
+        if (tag === "input") {
+          const type = (el.getAttribute("type") || "text").toLowerCase();
+          return type === "hidden" ? null : INPUT_ROLES[type] || "textbox";
+        }
+        if (tag === "select") {
+          return (el as HTMLSelectElement).multiple ? "listbox" : "combobox";
+        }
+        if ((el as HTMLElement).isContentEditable && !el.parentElement?.isContentEditable) {
+          return "textbox";
+        }
+        return TAG_ROLES[tag] || null;
+      };
+
+      const nameOf = (el: Element, role: string): string => {
+        const label = el.getAttribute("aria-label");
+        if (label) {
+          return clip(label);
+        }
+        const labelledBy = el.getAttribute("aria-labelledby");
+        if (labelledBy) {
+          const text = labelledBy
+            .split(/\s+/)
+            .map((id) => document.getElementById(id)?.textContent || "")
+            .join(" ");
+          if (text.trim()) {
+            return clip(text);
+          }
+        }
+        const labels = (el as HTMLInputElement).labels;
+        if (labels && labels.length > 0) {
+          return clip(Array.from(labels).map((l) => l.textContent || "").join(" "));
+        }
+        if (el.tagName === "IMG") {
+          return clip(el.getAttribute("alt") || "");
+        }
+        if (el.tagName === "INPUT" && ["button", "submit", "reset"].includes((el as HTMLInputElement).type)) {
+          return clip((el as HTMLInputElement).value);
+        }
+        if (NAMED_FROM_CONTENT.has(role) || role === "generic") {
+          const text = clip((el as HTMLElement).innerText || el.textContent || "");
+          if (text) {
+            return text;
+          }
+        }
+        return clip(el.getAttribute("title") || el.getAttribute("placeholder") || "");
+      };
+
+      const statesOf = (el: Element, role: string): string[] => {
+        const states: string[] = [];
+        const input = el as HTMLInputElement;
+        if (role === "heading") {
+          const level = el.getAttribute("aria-level") || el.tagName.slice(1);
+          states.push(`level=${level}`);
+        }
+        if (input.disabled || el.getAttribute("aria-disabled") === "true") {
+          states.push("disabled");
+        }
+        if (input.checked || el.getAttribute("aria-checked") === "true") {
+          states.push("checked");
+        }
+        if ((el as HTMLOptionElement).selected || el.getAttribute("aria-selected") === "true") {
+          states.push("selected");
+        }
+        const expanded = el.getAttribute("aria-expanded");
+        if (expanded) {
+          states.push(expanded === "true" ? "expanded" : "collapsed");
+        }
+        if (input.required || el.getAttribute("aria-required") === "true") {
+          states.push("required");
+        }
+        if (document.activeElement === el) {
+          states.push("focused");
+        }
+        if (["textbox", "searchbox", "spinbutton", "combobox", "slider"].includes(role)) {
+          const value =
+            el.tagName === "SELECT"
+              ? (el as HTMLSelectElement).selectedOptions[0]?.text
+              : input.type === "password" && input.value
+                ? "****"
+                : input.value;
+          if (value) {
+            states.push(`value=${JSON.stringify(clip(value))}`);
+          }
+        }
+        return states;
+      };
+
+      const isInteractive = (el: Element, role: string | null) =>
+        (role !== null && INTERACTIVE_ROLES.has(role)) ||
+        el.hasAttribute("onclick") ||
+        (el.hasAttribute("tabindex") && el.getAttribute("tabindex") !== "-1");
+
+      const refOf = (el: Element) => {
+        const ref = knownByElement.get(el) ?? `e${next++}`;
+        refs.push(ref);
+        elements.push(el);
+        refCount++;
+        return ref;
+      };
+
+      const walk = (el: Element, depth: number): void => {
+        if (isHidden(el)) {
+          return;
+        }
+        const role = roleOf(el);
+        const interactive = isInteractive(el, role);
+        let childDepth = depth;
+
+        if (role || interactive) {
+          const name = nameOf(el, role || "generic");
+          const parts = [`- ${role || "generic"}`];
+          if (name) {
+            parts.push(JSON.stringify(name));
+          }
+          if (interactive) {
+            parts.push(`[ref=${refOf(el)}]`);
+          }
+          parts.push(...statesOf(el, role || "generic").map((state) => `[${state}]`));
+          if (!interactiveOnly || interactive) {
+            lines.push(`${"  ".repeat(interactiveOnly ? 0 : depth)}${parts.join(" ")}`);
+          }
+          // Names taken from content already cover the text inside, so only
+          // nested interactive elements are still of interest
+          if (interactive || (role && NAMED_FROM_CONTENT.has(role) && name)) {
+            walkNested(el, depth + 1);
+            return;
+          }
+          childDepth = depth + 1;
+        }
+
+        for (const node of Array.from(el.childNodes)) {
+          if (node.nodeType === Node.ELEMENT_NODE) {
+            walk(node as Element, childDepth);
+          } else if (node.nodeType === Node.TEXT_NODE && !interactiveOnly) {
+            const text = clip(node.textContent || "");
+            if (text) {
+              lines.push(`${"  ".repeat(childDepth)}- text: ${JSON.stringify(text)}`);
+            }
+          }
+        }
+      };
+
+      const walkNested = (el: Element, depth: number) => {
+        for (const child of Array.from(el.children)) {
+          if (isInteractive(child, roleOf(child))) {
+            walk(child, depth);
+          } else if (!isHidden(child)) {
+            walkNested(child, depth);
+          }
+        }
+      };
+
+      const root = selector ? document.querySelector(selector) : document.body;
+      if (!root) {
+        throw new Error(`No element matches selector: ${selector}`);
+      }
+      walk(root, 0);
+
+      return { snapshot: lines.join("\n"), refCount, nextRef: next, refs, elements };
+    },
+    {
+      selector: options.selector,
+      interactiveOnly: options.interactiveOnly === true,
+      nextRef: options.nextRef,
+      knownRefs: Array.from(options.known.keys()),
+      knownElements: Array.from(options.known.values()),
+    }
+  );
+
+  try {
+    const { snapshot, refCount, nextRef, refs } = await result.evaluate((r) => ({
+      snapshot: r.snapshot,
+      refCount: r.refCount,
+      nextRef: r.nextRef,
+      refs: r.refs,
+    }));
+    const elementsHandle = await result.getProperty("elements");
+    const elements = await elementsHandle.getProperties();
+    await elementsHandle.dispose();
+    return {
+      snapshot,
+      refCount,
+      nextRef,
+      refs: new Map(refs.map((ref, i) => [ref, elements.get(String(i))!.asElement()!])),
+    };
+  } finally {
+    await result.dispose();
+  }
+}
@@ -0,0 +1,149 @@
+import { Page } from "playwright";
+import { BrowserSession, TabInfo } from "../types";
+
+function tabOf(session: BrowserSession, page: Page) {
+  return (session.tabs ?? []).find((tab) => tab.page === page);
+}
+
+function addTab(session: BrowserSession, page: Page, opener?: Page): void {
+  if (tabOf(session, page)) {
+    return;
+  }
+  session.nextTabId = (session.nextTabId ?? 0) + 1;
+  const tab = { id: `t${session.nextTabId}`, page, openerId: opener && tabOf(session, opener)?.id };
+  session.tabs = [...(session.tabs ?? []), tab];
+  page.once("close", () => removeTab(session, page));
+}
+
+function removeTab(session: BrowserSession, page: Page): void {
+  const tab = tabOf(session, page);
+  if (!tab) {
+    return;
+  }
+  session.tabs = (session.tabs ?? []).filter((other) => other !== tab);
+  // The tab that opened a closing popup takes over, e.g. after an OAuth
+  // window closes itself
+  if (session.page === page && session.tabs.length > 0) {
+    const opener = session.tabs.find((other) => other.id === tab.openerId);
+    session.page = (opener ?? session.tabs[session.tabs.length - 1]).page;
+  }
+}
+
+// Keeps the tab's ID when its page is swapped for a new one
+export function replaceTabPage(session: BrowserSession, oldPage: Page, newPage: Page): void {
+  const tab = tabOf(session, oldPage);
+  if (!tab) {
+    addTab(session, newPage);
+    return;
+  }
+  session.tabs = (session.tabs ?? []).filter((other) => other.page !== newPage);
+  tab.page = newPage;
+  if (!newPage.isClosed()) {
+    newPage.once("close", () => removeTab(session, newPage));
+  }
+}
+
+// Gives every page of the session's context a tab ID, including popups and
+// links opened in a new tab. session.page stays the active tab, which is
+// what all other tools act on.
+export function trackTabs(session: BrowserSession): void {
+  for (const page of session.context.pages()) {
+    addTab(session, page);
+  }
+  session.context.on("page", (page) => {
+    // opener() resolves right away for pages that already exist
+    page
+      .opener()
+      .then((opener) => addTab(session, page, opener ?? undefined))
+      .catch(() => addTab(session, page));
+  });
+}
+
+function findTab(session: BrowserSession, id: string) {
+  const tab = (session.tabs ?? []).find((candidate) => candidate.id === id);
+  if (!tab) {
+    const ids = (session.tabs ?? []).map((candidate) => candidate.id);
+    throw new Error(`No tab "${id}". Tabs: ${ids.join(", ") || "none"}`);
+  }
+  return tab;
+}
+
+export async function listTabs(session: BrowserSession): Promise<TabInfo[]> {
+  return Promise.all(
+    (session.tabs ?? []).map(async (tab) => ({
+      id: tab.id,
+      url: tab.page.url(),
+      // A page that is busy or closing has no title to give
+      title: await tab.page.title().catch(() => ""),
+      active: tab.page === session.page,
+      ...(tab.openerId ? { openerId: tab.openerId } : {}),
+    }))
+  );
+}
+
+export async function describeTab(session: BrowserSession, page: Page): Promise<TabInfo> {
+  const tab = (await listTabs(session)).find((info) => info.id === tabOf(session, page)?.id);
+  if (!tab) {
+    throw new Error("The tab was closed");
+  }
+  return tab;
+}
+
+export async function switchTab(session: BrowserSession, id: string): Promise<Page> {
+  const tab = findTab(session, id);
+  session.page = tab.page;
+  await tab.page.bringToFront();
+  return tab.page;
+}
+
+export async function openTab(session: BrowserSession): Promise<Page> {
+  const page = await session.context.newPage();
+  addTab(session, page);
+  session.page = page;
+  return page;
+}
+
+// Closes the active tab without an ID. The last tab stays open, since the
+// session needs a page; close the session instead.
+export async function closeTab(session: BrowserSession, id?: string): Promise<string> {
+  const tab = id === undefined ? tabOf(session, session.page) : findTab(session, id);
+  if (!tab) {
+    throw new Error("The active tab is already closed");
+  }
+  if ((session.tabs ?? []).length <= 1) {
+    throw new Error("Cannot close the last tab of a session; close the session instead");
+  }
+  await tab.page.close();
+  return tab.id;
+}
+
+// Runs trigger, e.g. a click, and returns the popup it opens
+export async function waitForPopup(
+  session: BrowserSession,
+  trigger: () => Promise<void>,
+  options: { timeout: number; activate: boolean }
+): Promise<Page> {
+  let popup: Page;
+  try {
+    [popup] = await Promise.all([
+      session.page.waitForEvent("popup", { timeout: options.timeout }),
+      trigger(),
+    ]);
+  } catch (error) {
+    if (error instanceof Error && error.name === "TimeoutError" && /popup/.test(error.message)) {
+      throw new Error(`No popup opened within ${options.timeout}ms`);
+    }
+    throw error;
+  }
+
+  addTab(session, popup, session.page);
+  try {
+    await popup.waitForLoadState("domcontentloaded", { timeout: options.timeout });
+  } catch {
+    // A slow popup is still returned; its tab can be waited on later
+  }
+  if (options.activate) {
+    session.page = popup;
+  }
+  return popup;
+}
@@ -0,0 +1,36 @@
+import { Request, Response, Router } from "express";
+import { profileStore } from "./store";
+
+export const profilesRouter = Router();
+
+profilesRouter.get("/", (req: Request, res: Response) => {
+  try {
+    res.json({ profiles: profileStore.list() });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+profilesRouter.get("/:name", (req: Request, res: Response) => {
+  const { name } = req.params;
+  if (!profileStore.exists(name)) {
+    return res.status(404).json({ error: `Profile "${name}" not found` });
+  }
+  res.json(profileStore.describe(name));
+});
+
+profilesRouter.delete("/:name", (req: Request, res: Response) => {
+  const { name } = req.params;
+  try {
+    if (!profileStore.delete(name)) {
+      return res.status(404).json({ error: `Profile "${name}" not found` });
+    }
+    res.json({ success: true, name });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
@@ -0,0 +1,75 @@
+import * as fs from "fs";
+import * as path from "path";
+import { ProfileInfo } from "../types";
+
+// Profile names become file names, so ".." and slashes are not allowed
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// Profiles are Playwright storage states: the cookies and localStorage of a
+// logged-in session, one JSON file per profile
+class ProfileStore {
+  get directory(): string {
+    return process.env.PROFILES_DIR || path.join(__dirname, "../../profiles");
+  }
+
+  isValidName(name: string): boolean {
+    return typeof name === "string" && PROFILE_NAME_PATTERN.test(name);
+  }
+
+  exists(name: string): boolean {
+    return this.isValidName(name) && fs.existsSync(this.filePath(name));
+  }
+
+  filePath(name: string): string {
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  // Returns the path to save a profile to, creating the directory
+  reservePath(name: string): string {
+    if (!this.isValidName(name)) {
+      throw new Error(
+        `Invalid profile name "${name}": use only letters, digits, "-" and "_"`
+      );
+    }
+    fs.mkdirSync(this.directory, { recursive: true });
+    return this.filePath(name);
+  }
+
+  describe(name: string): ProfileInfo {
+    const filePath = this.filePath(name);
+    const stats = fs.statSync(filePath);
+    let cookies = 0;
+    let origins = 0;
+    try {
+      const state = JSON.parse(fs.readFileSync(filePath, "utf-8"));
+      cookies = Array.isArray(state.cookies) ? state.cookies.length : 0;
+      origins = Array.isArray(state.origins) ? state.origins.length : 0;
+    } catch (error) {
+      console.warn(`[PROFILES] Could not read profile ${name}:`, error);
+    }
+    return { name, savedAt: stats.mtime.toISOString(), size: stats.size, cookies, origins };
+  }
+
+  list(): ProfileInfo[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .filter((name) => this.isValidName(name))
+      .sort()
+      .map((name) => this.describe(name));
+  }
+
+  delete(name: string): boolean {
+    if (!this.exists(name)) {
+      return false;
+    }
+    fs.unlinkSync(this.filePath(name));
+    return true;
+  }
+}
+
+export const profileStore = new ProfileStore();
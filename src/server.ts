@@ -1,13 +1,23 @@
-import express, { Express, Request, Response } from "express";
+import express, { Express, NextFunction, Request, Response } from "express";
+import { Server } from "http";
+import { artifactsRouter } from "./artifacts/routes";
+import { mcpRouter } from "./mcp/http";
+import { JSON_RPC_ERRORS } from "./mcp/protocol";
 import { toolRegistry } from "./mcp/registry";
+import { routeConsoleToStderr, startStdioTransport } from "./mcp/stdio";
 import { toolExecutor } from "./mcp/tools";
 import { browserManager } from "./playwright/browser";
+import { redactCredentials } from "./playwright/context";
+import { profilesRouter } from "./profiles/routes";
 import { ToolCallRequest } from "./types";
+import { reportsRouter, runsRouter, workflowsRouter } from "./workflows/routes";
+import { secretStore } from "./workflows/secrets";
 
 const app: Express = express();
 const PORT = process.env.PORT || 3000;
 
-app.use(express.json());
+// Large enough for base64 files sent to upload_file
+app.use(express.json({ limit: "30mb" }));
 
 app.get("/", (req: Request, res: Response) => {
   res.json({
@@ -15,12 +25,34 @@ app.get("/", (req: Request, res: Response) => {
     version: "1.0.0",
     description: "Browser automation via MCP over HTTP",
     endpoints: {
+      "POST /mcp": "MCP Streamable HTTP endpoint (JSON-RPC 2.0)",
+      "DELETE /mcp": "Terminate an MCP session",
       "GET /mcp/tools": "List all available tools",
       "POST /mcp/call": "Execute a tool",
       "POST /api/:toolName": "Execute a tool via REST API",
       "GET /health": "Server health check",
       "POST /cleanup": "Force cleanup all sessions and processes",
       "GET /sessions": "List all active sessions",
+      "POST /sessions": "Create a session with viewport, device, locale and other context options",
+      "GET /workflows": "List available workflows",
+      "GET /workflows/:name": "Get a workflow definition",
+      "POST /workflows/validate": "Validate a workflow definition",
+      "PUT /workflows/:name": "Create or replace a workflow",
+      "DELETE /workflows/:name": "Delete a workflow",
+      "GET /reports": "List workflow run reports",
+      "GET /reports/:runId": "Get the result of a workflow run",
+      "GET /reports/:runId/junit.xml": "JUnit XML report of a workflow run",
+      "GET /reports/:runId/report.html": "HTML report of a workflow run",
+      "GET /runs": "List workflow runs started since the server came up",
+      "GET /runs/:runId": "Status and progress of a workflow run",
+      "GET /runs/:runId/events": "Stream workflow run progress (Server-Sent Events)",
+      "DELETE /runs/:runId": "Cancel a running workflow",
+      "GET /artifacts": "List traces and other artifacts by session or run",
+      "GET /artifacts/:ownerId": "List the artifacts of a session or run",
+      "GET /artifacts/:ownerId/:file": "Download an artifact",
+      "GET /profiles": "List saved login profiles",
+      "GET /profiles/:name": "Describe a saved profile",
+      "DELETE /profiles/:name": "Delete a saved profile",
     },
   });
 });
@@ -60,6 +92,42 @@ app.get("/sessions", (req: Request, res: Response) => {
   }
 });
 
+// Same as the create_session tool; the body holds its arguments plus an
+// optional sessionId
+app.post("/sessions", async (req: Request, res: Response) => {
+  try {
+    const { sessionId, ...options } = req.body || {};
+    if (sessionId !== undefined && (typeof sessionId !== "string" || !sessionId.trim())) {
+      return res.status(400).json({ error: "sessionId must be a non-empty string" });
+    }
+
+    const invalid = toolExecutor.validateCreateSession(options);
+    if (invalid) {
+      return res.status(400).json({ error: invalid });
+    }
+    if (sessionId !== undefined && browserManager.getSession(sessionId)) {
+      return res.status(409).json({ error: `Session ${sessionId} already exists`, sessionId });
+    }
+
+    // Anything left, e.g. a browser that does not launch, is the server's
+    // problem
+    const response = await toolExecutor.execute({
+      tool: "create_session",
+      arguments: options,
+      sessionId,
+    });
+    if (!response.success) {
+      return res.status(500).json({ error: response.error, sessionId: response.sessionId });
+    }
+    res.status(201).json(response.data);
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    console.error("[API] Create session error:", errorMessage);
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
 app.post("/cleanup", async (req: Request, res: Response) => {
   try {
     console.log("[API] Cleanup request received");
@@ -88,6 +156,13 @@ app.get("/mcp/tools", (req: Request, res: Response) => {
   }
 });
 
+// Session passwords are not in the secrets file, so secretStore alone would
+// log them
+function describeArguments(tool: string, args: any): string {
+  const logged = tool === "create_session" && args ? redactCredentials(args) : args;
+  return secretStore.redact(JSON.stringify(logged, null, 2));
+}
+
 app.post("/mcp/call", async (req: Request, res: Response) => {
   try {
     const request: ToolCallRequest = req.body;
@@ -96,7 +171,7 @@ app.post("/mcp/call", async (req: Request, res: Response) => {
     console.log(`\n${"=".repeat(70)}`);
     console.log(`[MCP-CALL-${callId}] REQUEST`);
     console.log(`Tool: ${request.tool}`);
-    console.log(`Arguments: ${JSON.stringify(request.arguments, null, 2)}`);
+    console.log(`Arguments: ${describeArguments(request.tool, request.arguments)}`);
     console.log(`${"=".repeat(70)}`);
 
     if (!request.tool) {
@@ -123,9 +198,10 @@ app.post("/mcp/call", async (req: Request, res: Response) => {
     console.log(`[MCP-CALL-${callId}] RESPONSE (${duration}ms)`);
     console.log(`Success: ${response.success}`);
     if (response.error) {
-      console.log(`Error: ${response.error}`);
+      console.log(`Error: ${secretStore.redact(response.error)}`);
     } else {
-      console.log(`Data: ${JSON.stringify(response.data, null, 2).substring(0, 500)}${JSON.stringify(response.data, null, 2).length > 500 ? '...<truncated>' : ''}`);
+      const data = secretStore.redact(JSON.stringify(response.data, null, 2));
+      console.log(`Data: ${data.substring(0, 500)}${data.length > 500 ? '...<truncated>' : ''}`);
     }
     console.log(`${"=".repeat(70)}\n`);
 
@@ -147,7 +223,7 @@ app.post("/api/:toolName", async (req: Request, res: Response) => {
     console.log(`\n${"=".repeat(70)}`);
     console.log(`[API-CALL-${callId}] REQUEST via /api/${toolName}`);
     console.log(`Tool: ${toolName}`);
-    console.log(`Arguments: ${JSON.stringify(arguments_, null, 2)}`);
+    console.log(`Arguments: ${describeArguments(toolName, arguments_)}`);
     console.log(`${"=".repeat(70)}`);
 
     if (!toolRegistry.isValidTool(toolName)) {
@@ -170,9 +246,10 @@ app.post("/api/:toolName", async (req: Request, res: Response) => {
     console.log(`[API-CALL-${callId}] RESPONSE (${duration}ms)`);
     console.log(`Success: ${response.success}`);
     if (response.error) {
-      console.log(`Error: ${response.error}`);
+      console.log(`Error: ${secretStore.redact(response.error)}`);
     } else {
-      console.log(`Data: ${JSON.stringify(response.data, null, 2).substring(0, 500)}${JSON.stringify(response.data, null, 2).length > 500 ? '...<truncated>' : ''}`);
+      const data = secretStore.redact(JSON.stringify(response.data, null, 2));
+      console.log(`Data: ${data.substring(0, 500)}${data.length > 500 ? '...<truncated>' : ''}`);
     }
     console.log(`${"=".repeat(70)}\n`);
 
@@ -185,51 +262,81 @@ app.post("/api/:toolName", async (req: Request, res: Response) => {
   }
 });
 
+app.use("/mcp", mcpRouter);
+app.use("/workflows", workflowsRouter);
+app.use("/reports", reportsRouter);
+app.use("/runs", runsRouter);
+app.use("/artifacts", artifactsRouter);
+app.use("/profiles", profilesRouter);
+
 app.all("*", (req: Request, res: Response) => {
   res.status(404).json({ error: "Endpoint not found" });
 });
 
-const server = app.listen(PORT, async () => {
-  console.log(`\n${"=".repeat(70)}`);
-  console.log(`🎭 Playwright MCP HTTP Server`);
-  console.log(`${"=".repeat(70)}`);
-  console.log(`✅ Running on http://localhost:${PORT}`);
-  console.log(`📋 Tool discovery: GET http://localhost:${PORT}/mcp/tools`);
-  console.log(`🚀 Tool execution: POST http://localhost:${PORT}/mcp/call`);
-  console.log(`🧹 Cleanup: POST http://localhost:${PORT}/cleanup`);
-  console.log(`📊 Health check: GET http://localhost:${PORT}/health`);
-  console.log(`${"=".repeat(70)}\n`);
-  
+app.use((err: any, req: Request, res: Response, next: NextFunction) => {
+  if (err?.type !== "entity.parse.failed") {
+    return next(err);
+  }
+  if (req.path === "/mcp" || req.path === "/mcp/") {
+    return res.status(400).json({
+      jsonrpc: "2.0",
+      id: null,
+      error: { code: JSON_RPC_ERRORS.PARSE_ERROR, message: "Parse error" },
+    });
+  }
+  res.status(400).json({ error: "Invalid JSON body" });
+});
+
+const stdioMode = process.argv.includes("--stdio");
+let server: Server | null = null;
+
+async function initializeBrowserManager(): Promise<void> {
   // Initialize browser manager and cleanup orphaned processes on startup
   try {
     await (browserManager as any).initialize?.();
   } catch (error) {
     console.error("Error initializing browser manager:", error);
   }
-});
+}
 
-process.on("SIGINT", async () => {
+async function shutdown(): Promise<void> {
   console.log("\n[SHUTDOWN] Shutting down gracefully...");
   try {
     await (browserManager as any).forceCleanupAll?.();
   } catch (error) {
     console.error("[SHUTDOWN] Error during cleanup:", error);
   }
-  server.close(() => {
-    console.log("[SHUTDOWN] Server closed");
+  if (!server) {
     process.exit(0);
-  });
-});
-
-process.on("SIGTERM", async () => {
-  console.log("\n[SHUTDOWN] Shutting down gracefully...");
-  try {
-    await (browserManager as any).forceCleanupAll?.();
-  } catch (error) {
-    console.error("[SHUTDOWN] Error during cleanup:", error);
   }
   server.close(() => {
     console.log("[SHUTDOWN] Server closed");
     process.exit(0);
   });
-});
+}
+
+if (stdioMode) {
+  routeConsoleToStderr();
+  console.log("🎭 Playwright MCP server running in stdio mode");
+  initializeBrowserManager()
+    .then(() => startStdioTransport())
+    .then(() => shutdown());
+} else {
+  server = app.listen(PORT, async () => {
+    console.log(`\n${"=".repeat(70)}`);
+    console.log(`🎭 Playwright MCP HTTP Server`);
+    console.log(`${"=".repeat(70)}`);
+    console.log(`✅ Running on http://localhost:${PORT}`);
+    console.log(`🔌 MCP endpoint: POST http://localhost:${PORT}/mcp`);
+    console.log(`📋 Tool discovery: GET http://localhost:${PORT}/mcp/tools`);
+    console.log(`🚀 Tool execution: POST http://localhost:${PORT}/mcp/call`);
+    console.log(`🧹 Cleanup: POST http://localhost:${PORT}/cleanup`);
+    console.log(`📊 Health check: GET http://localhost:${PORT}/health`);
+    console.log(`${"=".repeat(70)}\n`);
+
+    await initializeBrowserManager();
+  });
+}
+
+process.on("SIGINT", shutdown);
+process.on("SIGTERM", shutdown);
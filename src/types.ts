@@ -1,4 +1,4 @@
-import { Browser, BrowserContext, Page } from "playwright";
+import { Browser, BrowserContext, ElementHandle, Page, Video } from "playwright";
 
 export interface MCPTool {
   name: string;
@@ -23,13 +23,499 @@ export interface ToolCallResponse {
   sessionId: string;
 }
 
+export type BrowserEngine = "chromium" | "firefox" | "webkit";
+
 export interface BrowserSession {
   browser: Browser;
+  engine: BrowserEngine;
+  headless: boolean;
   context: BrowserContext;
+  // The active tab, which tools act on
   page: Page;
+  // Every open page of the context, popups included
+  tabs?: BrowserTab[];
+  nextTabId?: number;
   createdAt: number;
+  tracing?: TracingState;
+  // Traces and videos saved on close go to this owner instead of the session ID
+  artifactOwnerId?: string;
+  // Present when the session records video; one per page
+  videos?: Video[];
+  // Next snapshot ref number, so refs are never reused within a session
+  nextRef?: number;
+  // The elements behind snapshot refs; nothing is written into the page
+  refs?: Map<string, ElementRef>;
+  // Network mocking rules, in the order they were added
+  routes?: RouteRule[];
+  nextRouteId?: number;
+  network?: NetworkLog;
+  console?: ConsoleLog;
+  // How alert, confirm, prompt and beforeunload dialogs are answered
+  dialogPolicy?: DialogPolicy;
+  // Restored after a `once` policy was used
+  previousDialogPolicy?: DialogPolicy;
+  dialogs?: DialogEntry[];
+}
+
+export interface DialogPolicy {
+  action: "accept" | "dismiss";
+  // Answer for prompt dialogs when accepting
+  promptText?: string;
+  // Only for the next dialog
+  once?: boolean;
+}
+
+export interface DialogEntry {
+  // "alert", "confirm", "prompt" or "beforeunload"
+  type: string;
+  message: string;
+  defaultValue?: string;
+  action: "accept" | "dismiss";
+  promptText?: string;
+  pageUrl?: string;
+  timestamp: string;
+}
+
+export interface ElementRef {
+  page: Page;
+  element: ElementHandle;
+}
+
+export interface BrowserTab {
+  id: string;
+  page: Page;
+  // The tab that opened this one as a popup
+  openerId?: string;
+}
+
+export interface TabInfo {
+  id: string;
+  url: string;
+  title: string;
+  active: boolean;
+  openerId?: string;
+}
+
+export interface ConsoleEntry {
+  id: number;
+  // Console message type ("log", "warning", "error", ...), or "pageerror"
+  // for uncaught exceptions and "requestfailed" for network errors
+  type: string;
+  text: string;
+  timestamp: string;
+  // Script location of a console message, as url:line:column
+  location?: string;
+  stack?: string;
+  pageUrl?: string;
+}
+
+// Which part of a session log to return
+export interface LogWindow {
+  // Only entries after this ID, to fetch new ones incrementally
+  sinceId?: number;
+  limit?: number;
+}
+
+export interface ConsoleLogFilter extends LogWindow {
+  types?: string[];
+}
+
+// A session log that drops its oldest entries when full
+export interface BoundedLog<T> {
+  entries: T[];
+  nextId: number;
+  // Entries dropped because the log was full
+  dropped: number;
+}
+
+export type ConsoleLog = BoundedLog<ConsoleEntry>;
+
+export interface NetworkEntry {
+  id: number;
+  method: string;
+  url: string;
+  resourceType: string;
+  startedAt: string;
+  // Missing while the request is in flight
+  status?: number;
+  statusText?: string;
+  duration?: number;
+  // Network error, e.g. "net::ERR_FAILED"
+  failure?: string;
+  size?: number;
+  requestHeaders?: Record<string, string>;
+  responseHeaders?: Record<string, string>;
+  // Only when the session captures bodies
+  requestBody?: string;
+  responseBody?: string;
+}
+
+export interface NetworkLog extends BoundedLog<NetworkEntry> {
+  captureBodies: boolean;
+}
+
+export interface ResponseMatcher {
+  // Text the URL contains
+  url?: string;
+  urlRegex?: string;
+  method?: string;
 }
 
+export interface NetworkLogFilter extends ResponseMatcher, LogWindow {
+  status?: number;
+  // Only network errors and 4xx/5xx responses
+  failed?: boolean;
+  resourceTypes?: string[];
+}
+
+// Answers matching requests with a canned response, fails them, or holds
+// them back; or replays them from a HAR file
+export interface RouteRuleSpec {
+  // Glob such as "**/api/projects*"; urlRegex takes a regular expression
+  // instead. Without either, the rule matches every request.
+  url?: string;
+  urlRegex?: string;
+  // Only requests of these types, e.g. ["font", "image"]
+  resourceTypes?: string[];
+  action?: "fulfill" | "abort" | "delay";
+  status?: number;
+  headers?: Record<string, string>;
+  contentType?: string;
+  body?: string;
+  json?: any;
+  // For abort, e.g. "blockedbyclient" (default: "failed")
+  errorCode?: string;
+  // Milliseconds to hold the request before acting on it
+  delay?: number;
+  // HAR file in the mocks directory to answer from, instead of an action
+  har?: string;
+  notFound?: "abort" | "fallback";
+}
+
+export interface RouteRule extends RouteRuleSpec {
+  id: string;
+  // Requests the rule has handled; not counted for HAR rules
+  hits: number;
+  createdAt: string;
+}
+
+// Browser context settings chosen when a session is created
+export interface ContextOptions {
+  viewport?: { width: number; height: number };
+  // Playwright device descriptor name, e.g. "iPhone 13"
+  device?: string;
+  userAgent?: string;
+  locale?: string;
+  // IANA time zone, e.g. "Europe/Berlin"
+  timezone?: string;
+  geolocation?: { latitude: number; longitude: number; accuracy?: number };
+  permissions?: string[];
+  colorScheme?: "light" | "dark" | "no-preference";
+  httpCredentials?: { username: string; password: string };
+  proxy?: { server: string; bypass?: string; username?: string; password?: string };
+  // Saved profile to start from, with its cookies and localStorage
+  profile?: string;
+}
+
+export interface SessionOptions extends ContextOptions {
+  // Default to the device's engine, then $BROWSER_ENGINE (or chromium), and
+  // $HEADLESS
+  browser?: BrowserEngine;
+  headless?: boolean;
+  recordVideo?: boolean;
+  // Keep text request and response bodies in the network log
+  captureBodies?: boolean;
+  artifactOwnerId?: string;
+}
+
+export interface TracingState {
+  startedAt: number;
+  title?: string;
+}
+
+export interface ArtifactInfo {
+  ownerId: string;
+  name: string;
+  size: number;
+  createdAt: string;
+  url: string;
+}
+
+// A file for upload_file: a path in the uploads directory, or the content
+export interface UploadFileSpec {
+  path?: string;
+  name?: string;
+  base64?: string;
+  mimeType?: string;
+}
+
+export interface DownloadResult {
+  artifact: ArtifactInfo;
+  // File name the site suggested; the artifact name may differ
+  suggestedFilename: string;
+  sourceUrl: string;
+  sha256: string;
+}
+
+export interface ProfileInfo {
+  name: string;
+  savedAt: string;
+  size: number;
+  cookies: number;
+  // Origins with saved localStorage
+  origins: number;
+}
+
+// Used for the traces, videos and HAR files of workflow runs
+export type RecordingMode = "off" | "on" | "retain-on-failure";
+
 export interface ToolRegistry {
   [toolName: string]: MCPTool;
 }
+
+export type JsonRpcId = string | number | null;
+
+export interface JsonRpcRequest {
+  jsonrpc: "2.0";
+  id?: JsonRpcId;
+  method: string;
+  params?: Record<string, any>;
+}
+
+export interface JsonRpcError {
+  code: number;
+  message: string;
+  data?: any;
+}
+
+export interface JsonRpcResponse {
+  jsonrpc: "2.0";
+  id: JsonRpcId;
+  result?: any;
+  error?: JsonRpcError;
+}
+
+export interface McpSession {
+  id: string;
+  protocolVersion: string;
+  clientInfo?: { name: string; version: string };
+  initialized: boolean;
+  browserSessionId?: string;
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+export type FailureAction =
+  | "STOP_AND_FAIL"
+  | "RETRY"
+  | "SKIP"
+  | "CONTINUE_AND_MARK_FAILED";
+
+export type FailureReason =
+  | "TIMEOUT"
+  | "SELECTOR_NOT_FOUND"
+  | "NETWORK_ERROR"
+  | "ASSERTION_FAILED"
+  | "UNKNOWN";
+
+export interface FailurePolicyRule {
+  action: FailureAction;
+  retries?: number;
+  backoffMs?: number;
+  backoffMultiplier?: number;
+  onExhausted?: Exclude<FailureAction, "RETRY">;
+}
+
+export type FailurePolicyValue = FailureAction | FailurePolicyRule;
+
+export interface FailurePolicy {
+  onTimeout?: FailurePolicyValue;
+  onSelectorNotFound?: FailurePolicyValue;
+  onNetworkError?: FailurePolicyValue;
+  onAssertionFailed?: FailurePolicyValue;
+  onError?: FailurePolicyValue;
+}
+
+export interface WorkflowCondition {
+  selectorVisible?: string;
+  selectorPresent?: string;
+  timeout?: number;
+  urlMatches?: string;
+  variable?: string;
+  equals?: any;
+  notEquals?: any;
+  matches?: string;
+  all?: WorkflowCondition[];
+  any?: WorkflowCondition[];
+  not?: WorkflowCondition;
+}
+
+export interface WorkflowStep {
+  action: string;
+  arguments?: Record<string, any>;
+  description?: string;
+  waitAfter?: number;
+  onFailure?: FailurePolicyValue | FailurePolicy;
+  // Stores the step's result in a variable for later steps
+  saveAs?: string;
+  // Control flow: if
+  condition?: WorkflowCondition;
+  then?: WorkflowStep[];
+  else?: WorkflowStep[];
+  // Control flow: repeat / forEach
+  steps?: WorkflowStep[];
+  times?: number | string;
+  items?: any[] | string;
+  as?: string;
+  // Control flow: include
+  workflow?: string;
+  params?: Record<string, any>;
+}
+
+export interface WorkflowParameter {
+  type: "string" | "number" | "boolean";
+  description?: string;
+  default?: string | number | boolean;
+  required?: boolean;
+}
+
+export interface WorkflowDefinition {
+  name: string;
+  description?: string;
+  parameters?: Record<string, WorkflowParameter>;
+  failurePolicy?: FailurePolicy;
+  trace?: RecordingMode;
+  video?: RecordingMode;
+  har?: RecordingMode;
+  browser?: BrowserEngine;
+  headless?: boolean;
+  // Start from a saved profile, e.g. one a login workflow saved
+  useProfile?: string;
+  // Network mocking rules set up before the first step
+  routes?: RouteRuleSpec[];
+  // Fail the step during which an uncaught page error occurs
+  failOnPageError?: boolean;
+  preconditions?: {
+    generateRandomValues?: boolean;
+    randomValues?: Record<string, string>;
+  };
+  steps: WorkflowStep[];
+}
+
+export interface AssertionResult {
+  passed: boolean;
+  mode: "hard" | "soft";
+  expected: string;
+  actual: any;
+  message: string;
+}
+
+export interface AssertionSummary {
+  total: number;
+  passed: number;
+  failed: number;
+  details: (AssertionResult & { path: string; action: string; description?: string })[];
+}
+
+export type StepStatus = "passed" | "failed" | "skipped" | "cancelled";
+
+export interface StepResult {
+  step: number;
+  path: string;
+  action: string;
+  description?: string;
+  success: boolean;
+  status: StepStatus;
+  result?: any;
+  error?: string;
+  failureReason?: FailureReason;
+  policy?: FailureAction;
+  attempts: number;
+  duration: number;
+  assertion?: AssertionResult;
+  children?: StepResult[];
+}
+
+export interface WorkflowReportLinks {
+  junit: string;
+  html: string;
+}
+
+export interface WorkflowRunResult {
+  runId: string;
+  workflow: string;
+  message: string;
+  status: "passed" | "failed" | "cancelled";
+  startedAt: string;
+  duration: number;
+  stepsExecuted: number;
+  failedSteps: number;
+  skippedSteps: number;
+  stoppedAtStep?: string;
+  error?: string;
+  params: Record<string, any>;
+  assertions: AssertionSummary;
+  results: StepResult[];
+  reports?: WorkflowReportLinks;
+  artifacts?: ArtifactInfo[];
+  sessionId: string;
+  browser: BrowserEngine;
+  headless: boolean;
+  // Uncaught page errors that occurred during the run
+  pageErrors?: ConsoleEntry[];
+  // Dialogs the pages opened, and how they were answered
+  dialogs?: DialogEntry[];
+}
+
+export type WorkflowRunStatus = "running" | "passed" | "failed" | "cancelled";
+
+export interface WorkflowProgressEvent {
+  id: number;
+  type: "run_started" | "step_started" | "step_finished" | "run_finished";
+  runId: string;
+  timestamp: string;
+  path?: string;
+  action?: string;
+  description?: string;
+  status?: StepStatus | WorkflowRunStatus;
+  duration?: number;
+  error?: string;
+  message?: string;
+}
+
+export type WorkflowProgressUpdate = Omit<WorkflowProgressEvent, "id" | "runId" | "timestamp">;
+
+export interface WorkflowRunLinks {
+  status: string;
+  events: string;
+}
+
+export interface WorkflowRunInfo {
+  runId: string;
+  workflow: string;
+  sessionId: string;
+  status: WorkflowRunStatus;
+  startedAt: string;
+  finishedAt?: string;
+  currentStep?: string;
+  stepsFinished: number;
+  cancelRequested: boolean;
+  error?: string;
+  result?: WorkflowRunResult;
+  links: WorkflowRunLinks;
+}
+
+export interface WorkflowValidationResult {
+  valid: boolean;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface WorkflowSummary {
+  name: string;
+  title?: string;
+  description?: string;
+  parameters?: string[];
+  steps?: number;
+  error?: string;
+}
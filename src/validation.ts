@@ -0,0 +1,4 @@
+// A plain object such as parsed JSON gives, not an array or null
+export function isObject(value: unknown): value is Record<string, any> {
+  return typeof value === "object" && value !== null && !Array.isArray(value);
+}
@@ -0,0 +1,138 @@
+import { Page } from "playwright";
+import { AssertionResult } from "../types";
+
+export const ASSERTION_ACTIONS = [
+  "assert_text",
+  "assert_visible",
+  "assert_url",
+  "assert_title",
+  "assert_count",
+  "assert_attribute",
+];
+
+const DEFAULT_ASSERTION_TIMEOUT = 5000;
+const POLL_INTERVAL = 250;
+
+export class AssertionError extends Error {
+  constructor(public detail: AssertionResult) {
+    super(detail.message);
+    this.name = "AssertionError";
+  }
+}
+
+interface Check {
+  passed: boolean;
+  expected: string;
+  actual: any;
+}
+
+// Exact value under `exactKey`, or `contains`, or `matches` (a regex).
+function compareString(
+  actual: string | null,
+  args: Record<string, any>,
+  exactKey: string
+): Check {
+  if (exactKey in args) {
+    return {
+      passed: actual !== null && actual.trim() === String(args[exactKey]).trim(),
+      expected: `equals ${JSON.stringify(args[exactKey])}`,
+      actual,
+    };
+  }
+  if ("contains" in args) {
+    return {
+      passed: actual !== null && actual.includes(String(args.contains)),
+      expected: `contains ${JSON.stringify(args.contains)}`,
+      actual,
+    };
+  }
+  if ("matches" in args) {
+    return {
+      passed: actual !== null && new RegExp(args.matches).test(actual),
+      expected: `matches /${args.matches}/`,
+      actual,
+    };
+  }
+  return { passed: actual !== null, expected: "is present", actual };
+}
+
+async function check(page: Page, action: string, args: Record<string, any>): Promise<Check> {
+  switch (action) {
+    case "assert_text": {
+      const element = await page.$(args.selector);
+      const text = element ? await element.innerText() : null;
+      return compareString(text, args, "text");
+    }
+
+    case "assert_visible": {
+      const expectVisible = args.visible !== false;
+      const visible = await page.isVisible(args.selector);
+      return {
+        passed: visible === expectVisible,
+        expected: expectVisible ? "visible" : "hidden",
+        actual: visible ? "visible" : "hidden",
+      };
+    }
+
+    case "assert_url":
+      return compareString(page.url(), args, "url");
+
+    case "assert_title":
+      return compareString(await page.title(), args, "title");
+
+    case "assert_count": {
+      const count = (await page.$$(args.selector)).length;
+      if ("count" in args) {
+        return { passed: count === args.count, expected: `exactly ${args.count}`, actual: count };
+      }
+      const min = args.min ?? 0;
+      const max = args.max ?? Infinity;
+      const expected =
+        max === Infinity ? `at least ${min}` : "min" in args ? `between ${min} and ${max}` : `at most ${max}`;
+      return { passed: count >= min && count <= max, expected, actual: count };
+    }
+
+    case "assert_attribute": {
+      const element = await page.$(args.selector);
+      const value = element ? await element.getAttribute(args.attribute) : null;
+      return compareString(value, args, "value");
+    }
+
+    default:
+      throw new Error(`Unknown assertion: ${action}`);
+  }
+}
+
+// Polls until the assertion holds or the timeout runs out, like Playwright's
+// own expect(), so assertions tolerate pages that are still settling.
+export async function runAssertion(
+  page: Page,
+  action: string,
+  args: Record<string, any>
+): Promise<AssertionResult> {
+  const mode = args.mode === "soft" ? "soft" : "hard";
+  const timeout = args.timeout ?? DEFAULT_ASSERTION_TIMEOUT;
+  const deadline = Date.now() + timeout;
+  const target = args.selector ? ` on ${args.selector}` : "";
+
+  let result = await check(page, action, args);
+  while (!result.passed && Date.now() < deadline) {
+    await new Promise((resolve) => setTimeout(resolve, POLL_INTERVAL));
+    result = await check(page, action, args);
+  }
+
+  const detail: AssertionResult = {
+    passed: result.passed,
+    mode,
+    expected: result.expected,
+    actual: result.actual,
+    message: result.passed
+      ? `${action}${target} passed: ${result.expected}`
+      : `${action}${target} failed: expected ${result.expected}, got ${JSON.stringify(result.actual)}`,
+  };
+
+  if (!result.passed) {
+    throw new AssertionError(detail);
+  }
+  return detail;
+}
@@ -0,0 +1,230 @@
+import * as fs from "fs";
+import * as path from "path";
+import { StepResult, WorkflowReportLinks, WorkflowRunResult } from "../types";
+
+const RUN_ID_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+export const REPORT_FILES = {
+  junit: "junit.xml",
+  html: "report.html",
+  json: "run.json",
+};
+
+export interface RunScreenshot {
+  path: string;
+  data: string;
+}
+
+function escapeXml(value: any): string {
+  return String(value ?? "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;")
+    .replace(/'/g, "&apos;")
+    // Control characters are not allowed in XML 1.0
+    .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, "");
+}
+
+const escapeHtml = escapeXml;
+
+function seconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+function flatten(results: StepResult[]): StepResult[] {
+  return results.flatMap((r) => [r, ...flatten(r.children || [])]);
+}
+
+// Block steps (if, repeat, ...) are containers; only the steps that ran
+// themselves become test cases.
+function testCases(results: StepResult[]): StepResult[] {
+  return flatten(results).filter((r) => !r.children || r.children.length === 0);
+}
+
+function stepName(result: StepResult): string {
+  return `Step ${result.path}: ${result.description || result.action}`;
+}
+
+class ReportStore {
+  get directory(): string {
+    return process.env.REPORTS_DIR || path.join(__dirname, "../../reports");
+  }
+
+  isValidRunId(runId: string): boolean {
+    return typeof runId === "string" && RUN_ID_PATTERN.test(runId);
+  }
+
+  exists(runId: string): boolean {
+    return this.isValidRunId(runId) && fs.existsSync(this.runDirectory(runId));
+  }
+
+  filePath(runId: string, file: string): string {
+    return path.join(this.runDirectory(runId), file);
+  }
+
+  links(runId: string): WorkflowReportLinks {
+    return {
+      junit: `/reports/${runId}/${REPORT_FILES.junit}`,
+      html: `/reports/${runId}/${REPORT_FILES.html}`,
+    };
+  }
+
+  listRunIds(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.directory)
+      .filter((name) => this.isValidRunId(name))
+      .sort()
+      .reverse();
+  }
+
+  getRun(runId: string): WorkflowRunResult | undefined {
+    const file = this.filePath(runId, REPORT_FILES.json);
+    if (!this.exists(runId) || !fs.existsSync(file)) {
+      return undefined;
+    }
+    return JSON.parse(fs.readFileSync(file, "utf-8"));
+  }
+
+  write(run: WorkflowRunResult, screenshots: RunScreenshot[]): WorkflowReportLinks {
+    if (!this.isValidRunId(run.runId)) {
+      throw new Error(`Invalid run ID "${run.runId}"`);
+    }
+
+    const directory = this.runDirectory(run.runId);
+    fs.mkdirSync(directory, { recursive: true });
+    fs.writeFileSync(path.join(directory, REPORT_FILES.junit), this.renderJUnit(run));
+    fs.writeFileSync(path.join(directory, REPORT_FILES.html), this.renderHtml(run, screenshots));
+    fs.writeFileSync(path.join(directory, REPORT_FILES.json), JSON.stringify(run, null, 2));
+    console.log(`[REPORTS] Wrote reports for run ${run.runId} to ${directory}`);
+
+    return this.links(run.runId);
+  }
+
+  private runDirectory(runId: string): string {
+    return path.join(this.directory, runId);
+  }
+
+  private renderJUnit(run: WorkflowRunResult): string {
+    const cases = testCases(run.results);
+    const failures = cases.filter((c) => c.status === "failed").length;
+    // A step interrupted by cancelling the run did not fail, so it counts as skipped
+    const skipped = cases.filter((c) => c.status === "skipped" || c.status === "cancelled").length;
+
+    const caseXml = cases.map((c) => {
+      const attributes = `name="${escapeXml(stepName(c))}" classname="${escapeXml(run.workflow)}" time="${seconds(c.duration)}"`;
+      if (c.status === "passed") {
+        return `    <testcase ${attributes}/>`;
+      }
+      if (c.status === "skipped" || c.status === "cancelled") {
+        return `    <testcase ${attributes}>\n      <skipped message="${escapeXml(c.error)}"/>\n    </testcase>`;
+      }
+      return [
+        `    <testcase ${attributes}>`,
+        `      <failure message="${escapeXml(c.error)}" type="${escapeXml(c.failureReason)}">${escapeXml(c.error)}</failure>`,
+        `    </testcase>`,
+      ].join("\n");
+    });
+
+    return [
+      `<?xml version="1.0" encoding="UTF-8"?>`,
+      `<testsuites name="${escapeXml(run.workflow)}" tests="${cases.length}" failures="${failures}" skipped="${skipped}" time="${seconds(run.duration)}">`,
+      `  <testsuite name="${escapeXml(run.workflow)}" tests="${cases.length}" failures="${failures}" errors="0" skipped="${skipped}" time="${seconds(run.duration)}" timestamp="${escapeXml(run.startedAt)}">`,
+      `    <properties>`,
+      `      <property name="runId" value="${escapeXml(run.runId)}"/>`,
+      `      <property name="sessionId" value="${escapeXml(run.sessionId)}"/>`,
+      `      <property name="browser" value="${escapeXml(run.browser)}"/>`,
+      `      <property name="headless" value="${run.headless}"/>`,
+      `      <property name="status" value="${escapeXml(run.status)}"/>`,
+      `    </properties>`,
+      ...caseXml,
+      ...(run.error ? [`    <system-err>${escapeXml(run.error)}</system-err>`] : []),
+      `  </testsuite>`,
+      `</testsuites>`,
+      ``,
+    ].join("\n");
+  }
+
+  private renderHtml(run: WorkflowRunResult, screenshots: RunScreenshot[]): string {
+    const screenshotsByPath = new Map<string, string[]>();
+    for (const shot of screenshots) {
+      screenshotsByPath.set(shot.path, [...(screenshotsByPath.get(shot.path) || []), shot.data]);
+    }
+
+    const rows = flatten(run.results).map((r) => {
+      const depth = r.path.split(".").length - 1;
+      const images = (screenshotsByPath.get(r.path) || [])
+        .map((data) => `<img src="data:image/png;base64,${data}" alt="Screenshot at step ${escapeHtml(r.path)}">`)
+        .join("");
+      const details = [
+        r.error ? `<pre class="error">${escapeHtml(r.error)}</pre>` : "",
+        r.assertion ? `<div>${escapeHtml(r.assertion.message)}</div>` : "",
+        images,
+      ].join("");
+
+      return `<tr class="${r.status}">
+  <td style="padding-left: ${0.5 + depth * 1.5}em">${escapeHtml(r.path)}</td>
+  <td>${escapeHtml(r.action)}</td>
+  <td>${escapeHtml(r.description || "")}${details}</td>
+  <td>${escapeHtml(r.status)}</td>
+  <td>${r.attempts}</td>
+  <td>${r.duration} ms</td>
+</tr>`;
+    });
+
+    const summary: [string, any][] = [
+      ["Status", run.status],
+      ["Run ID", run.runId],
+      ["Session", run.sessionId],
+      ["Browser", `${run.browser}${run.headless ? " (headless)" : ""}`],
+      ["Started", run.startedAt],
+      ["Duration", `${run.duration} ms`],
+      ["Steps", `${run.stepsExecuted} executed, ${run.failedSteps} failed, ${run.skippedSteps} skipped`],
+      ["Assertions", `${run.assertions.passed} of ${run.assertions.total} passed`],
+      ["Parameters", JSON.stringify(run.params)],
+    ];
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${escapeHtml(run.workflow)} - ${escapeHtml(run.status)}</title>
+<style>
+  body { font-family: system-ui, sans-serif; margin: 2em; color: #222; }
+  h1 .status { font-size: 0.6em; padding: 0.2em 0.6em; border-radius: 4px; color: #fff; vertical-align: middle; }
+  .status.passed { background: #2e7d32; }
+  .status.failed { background: #c62828; }
+  .status.cancelled { background: #757575; }
+  table { border-collapse: collapse; width: 100%; }
+  th, td { border-bottom: 1px solid #ddd; padding: 0.4em 0.5em; text-align: left; vertical-align: top; }
+  dl { display: grid; grid-template-columns: max-content 1fr; gap: 0.2em 1em; }
+  dt { font-weight: bold; }
+  tr.failed { background: #fdecea; }
+  tr.skipped, tr.cancelled { color: #888; }
+  pre.error { white-space: pre-wrap; color: #c62828; margin: 0.4em 0 0; }
+  img { display: block; max-width: 640px; margin-top: 0.5em; border: 1px solid #ccc; }
+</style>
+</head>
+<body>
+<h1>${escapeHtml(run.workflow)} <span class="status ${escapeHtml(run.status)}">${escapeHtml(run.status)}</span></h1>
+<p>${escapeHtml(run.message)}</p>
+${run.error ? `<pre class="error">${escapeHtml(run.error)}</pre>` : ""}
+<dl>
+${summary.map(([label, value]) => `  <dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>`).join("\n")}
+</dl>
+<table>
+<thead><tr><th>Step</th><th>Action</th><th>Description</th><th>Status</th><th>Attempts</th><th>Duration</th></tr></thead>
+<tbody>
+${rows.join("\n")}
+</tbody>
+</table>
+</body>
+</html>
+`;
+  }
+}
+
+export const reportStore = new ReportStore();
@@ -0,0 +1,220 @@
+import { Request, Response, Router } from "express";
+import { WorkflowProgressEvent } from "../types";
+import { REPORT_FILES, reportStore } from "./reports";
+import { runManager } from "./runs";
+import { validateWorkflow } from "./schema";
+import { workflowStore } from "./store";
+
+export const workflowsRouter = Router();
+
+workflowsRouter.get("/", (req: Request, res: Response) => {
+  try {
+    res.json({ workflows: workflowStore.list() });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+workflowsRouter.post("/validate", (req: Request, res: Response) => {
+  try {
+    res.json(validateWorkflow(req.body));
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+workflowsRouter.get("/:name", (req: Request, res: Response) => {
+  const { name } = req.params;
+  if (!workflowStore.exists(name)) {
+    return res.status(404).json({ error: `Workflow "${name}" not found` });
+  }
+
+  try {
+    res.json(workflowStore.get(name));
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+workflowsRouter.put("/:name", (req: Request, res: Response) => {
+  const { name } = req.params;
+  if (!workflowStore.isValidName(name)) {
+    return res.status(400).json({
+      error: `Invalid workflow name "${name}": use letters, digits, "-" and "_" only`,
+    });
+  }
+
+  try {
+    const validation = validateWorkflow(req.body);
+    if (!validation.valid) {
+      return res.status(400).json({
+        error: "Workflow definition is invalid",
+        ...validation,
+      });
+    }
+
+    const existed = workflowStore.exists(name);
+    workflowStore.save(name, req.body);
+    res.status(existed ? 200 : 201).json({
+      success: true,
+      name,
+      created: !existed,
+      warnings: validation.warnings,
+    });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+workflowsRouter.delete("/:name", (req: Request, res: Response) => {
+  const { name } = req.params;
+  try {
+    if (!workflowStore.delete(name)) {
+      return res.status(404).json({ error: `Workflow "${name}" not found` });
+    }
+    res.json({ success: true, name });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+export const reportsRouter = Router();
+
+reportsRouter.get("/", (req: Request, res: Response) => {
+  try {
+    const reports = reportStore.listRunIds().map((runId) => {
+      const run = reportStore.getRun(runId);
+      return {
+        runId,
+        workflow: run?.workflow,
+        status: run?.status,
+        startedAt: run?.startedAt,
+        ...reportStore.links(runId),
+      };
+    });
+    res.json({ reports });
+  } catch (error) {
+    const errorMessage =
+      error instanceof Error ? error.message : "Unknown error";
+    res.status(500).json({ error: errorMessage });
+  }
+});
+
+reportsRouter.get("/:runId", (req: Request, res: Response) => {
+  const run = reportStore.getRun(req.params.runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${req.params.runId}" not found` });
+  }
+  res.json({ ...run, reports: reportStore.links(run.runId) });
+});
+
+reportsRouter.get("/:runId/:file", (req: Request, res: Response) => {
+  const { runId, file } = req.params;
+  const types: Record<string, string> = {
+    [REPORT_FILES.junit]: "application/xml",
+    [REPORT_FILES.html]: "text/html",
+  };
+
+  if (!(file in types) || !reportStore.exists(runId)) {
+    return res.status(404).json({ error: `Report "${file}" for run "${runId}" not found` });
+  }
+
+  res.type(types[file]).sendFile(reportStore.filePath(runId, file), (error) => {
+    if (error && !res.headersSent) {
+      res.status(404).json({ error: `Report "${file}" for run "${runId}" not found` });
+    }
+  });
+});
+
+export const runsRouter = Router();
+
+runsRouter.get("/", (req: Request, res: Response) => {
+  res.json({
+    runs: runManager.list().map(({ result, ...info }) => info),
+  });
+});
+
+runsRouter.get("/:runId", (req: Request, res: Response) => {
+  const { runId } = req.params;
+  const info = runManager.get(runId);
+  if (info) {
+    return res.json(info);
+  }
+
+  // Runs from before a restart, or pruned from memory, still have a report
+  const run = reportStore.getRun(runId);
+  if (!run) {
+    return res.status(404).json({ error: `Run "${runId}" not found` });
+  }
+  res.json({
+    runId,
+    workflow: run.workflow,
+    sessionId: run.sessionId,
+    status: run.status,
+    startedAt: run.startedAt,
+    result: run,
+  });
+});
+
+// Server-Sent Events: replays the progress so far, then streams live
+// updates until the run finishes. Reconnecting clients resume after
+// Last-Event-ID.
+runsRouter.get("/:runId/events", (req: Request, res: Response) => {
+  const { runId } = req.params;
+  const info = runManager.get(runId);
+  if (!info) {
+    return res.status(404).json({ error: `Run "${runId}" not found` });
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+  });
+
+  const send = (event: WorkflowProgressEvent) => {
+    res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+  };
+
+  const lastEventId = Number(req.header("Last-Event-ID") ?? -1);
+  runManager.getEvents(runId, Number.isNaN(lastEventId) ? -1 : lastEventId).forEach(send);
+  if (info.status !== "running") {
+    return res.end();
+  }
+
+  const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+  const unsubscribe = runManager.subscribe(runId, (event) => {
+    send(event);
+    if (event.type === "run_finished") {
+      res.end();
+    }
+  });
+  res.on("close", () => {
+    clearInterval(keepAlive);
+    unsubscribe();
+  });
+});
+
+runsRouter.delete("/:runId", (req: Request, res: Response) => {
+  const { runId } = req.params;
+  const info = runManager.get(runId);
+  if (!info) {
+    return res.status(404).json({ error: `Run "${runId}" not found` });
+  }
+  if (!runManager.cancel(runId)) {
+    return res.status(409).json({
+      error: `Run "${runId}" already finished with status "${info.status}"`,
+    });
+  }
+  res.status(202).json({ success: true, runId, status: "cancelling", links: info.links });
+});
@@ -0,0 +1,1155 @@
+import { artifactStore } from "../artifacts/store";
+import { browserManager, defaultEngine, defaultHeadless } from "../playwright/browser";
+import { getConsoleLogs, lastConsoleId } from "../playwright/console";
+import { getDialogPolicy, setDialogPolicy } from "../playwright/dialogs";
+import { extractTable, getHtml, getText, queryAll } from "../playwright/extract";
+import { downloadFile, uploadFiles } from "../playwright/files";
+import {
+  dragAndDrop,
+  mouseClick,
+  pressKey,
+  scrollIntoView,
+  selectOptions,
+  setChecked,
+} from "../playwright/interactions";
+import { addRouteRule } from "../playwright/mocking";
+import { describeMatcher, exportHar, waitForResponse } from "../playwright/network";
+import { closeTab, describeTab, openTab, switchTab, waitForPopup } from "../playwright/tabs";
+import {
+  ArtifactInfo,
+  BrowserEngine,
+  BrowserSession,
+  ConsoleEntry,
+  FailurePolicy,
+  FailurePolicyRule,
+  FailurePolicyValue,
+  FailureReason,
+  StepResult,
+  AssertionSummary,
+  RecordingMode,
+  WorkflowCondition,
+  WorkflowDefinition,
+  WorkflowProgressUpdate,
+  WorkflowRunResult,
+  WorkflowStep,
+} from "../types";
+import { ASSERTION_ACTIONS, AssertionError, runAssertion } from "./assertions";
+import { RunScreenshot, reportStore } from "./reports";
+import { CONTROL_ACTIONS, FAILURE_ACTIONS, validateWorkflow } from "./schema";
+import { secretStore } from "./secrets";
+import { workflowStore } from "./store";
+import { resolveParameters, substituteVariables } from "./variables";
+
+const GLOBAL_TIMEOUT = 60000; // 60 seconds global timeout
+
+const FAILURE_POLICY_KEYS: Record<FailureReason, keyof FailurePolicy> = {
+  TIMEOUT: "onTimeout",
+  SELECTOR_NOT_FOUND: "onSelectorNotFound",
+  NETWORK_ERROR: "onNetworkError",
+  ASSERTION_FAILED: "onAssertionFailed",
+  UNKNOWN: "onError",
+};
+
+const RETRY_DEFAULTS = {
+  retries: 2,
+  backoffMs: 1000,
+  backoffMultiplier: 2,
+};
+
+export class WorkflowRunError extends Error {
+  constructor(message: string, public run: WorkflowRunResult) {
+    super(message);
+  }
+}
+
+export class RunCancelledError extends Error {
+  constructor(message = "Workflow run was cancelled") {
+    super(message);
+    this.name = "RunCancelledError";
+  }
+}
+
+// Raised for steps during which the page threw, with failOnPageError
+class PageErrorFailure extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "PageErrorFailure";
+  }
+}
+
+export interface WorkflowRunOptions {
+  runId?: string;
+  // Aborting stops the run before the next step, or interrupts the current one
+  signal?: AbortSignal;
+  onProgress?: (update: WorkflowProgressUpdate) => void;
+  // Override the workflow's own trace, video, HAR and browser settings
+  trace?: RecordingMode;
+  video?: RecordingMode;
+  har?: RecordingMode;
+  browser?: BrowserEngine;
+  headless?: boolean;
+}
+
+interface RunContext {
+  workflow: WorkflowDefinition;
+  session: BrowserSession;
+  sessionId: string;
+  variables: Record<string, any>;
+  includeStack: string[];
+  // Full-size screenshots for the HTML report; results only keep a preview
+  screenshots: RunScreenshot[];
+  // Shared by loop iterations and included workflows, which run on copies of
+  // the context
+  pageErrors: PageErrorCheck;
+  // Saved by download steps, listed with the run's other artifacts
+  downloads: ArtifactInfo[];
+  signal?: AbortSignal;
+  onProgress?: (update: WorkflowProgressUpdate) => void;
+}
+
+interface PageErrorCheck {
+  // The top-level workflow's setting, which included steps follow as well
+  failOnPageError: boolean;
+  // Console entries up to this ID have been checked for page errors
+  consoleMark: number;
+}
+
+interface StepOutcome {
+  result: StepResult;
+  stop?: { path: string; error: string };
+}
+
+interface BlockOutcome {
+  value: any;
+  children: StepResult[];
+  stop?: { path: string; error: string };
+}
+
+export class WorkflowRunner {
+  async run(
+    workflow: WorkflowDefinition,
+    sessionId: string,
+    providedParams: Record<string, any> = {},
+    options: WorkflowRunOptions = {}
+  ): Promise<WorkflowRunResult> {
+    const { runId = this.generateRunId(), signal, onProgress } = options;
+    const startTime = Date.now();
+    console.log(`[${sessionId}] Executing workflow: ${workflow.name} (run ${runId})`);
+    console.log(`[${sessionId}] Description: ${workflow.description}`);
+    console.log(`[${sessionId}] Total steps: ${workflow.steps.length}`);
+
+    secretStore.load();
+    const params = resolveParameters(workflow, providedParams);
+
+    const traceMode = options.trace ?? workflow.trace ?? "off";
+    const videoMode = options.video ?? workflow.video ?? "off";
+    const harMode = options.har ?? workflow.har ?? "off";
+    let session: BrowserSession | undefined;
+    let context: RunContext | undefined;
+    let tracing = false;
+    let consoleStart = 0;
+    let outcome: { results: StepResult[]; stop?: { path: string; error: string } } = { results: [] };
+    let failure: string | undefined;
+
+    // Whatever goes wrong, e.g. a browser that does not launch or a broken
+    // route, the run still ends with a result, recordings and a report
+    try {
+      // Close all old sessions and focus on the new one
+      console.log(`[${sessionId}] Closing all previous sessions...`);
+      await browserManager.closeAllSessions();
+      console.log(`[${sessionId}] Previous sessions closed. Starting fresh workflow.`);
+
+      session = await browserManager.getOrCreateSession(sessionId, {
+        browser: options.browser ?? workflow.browser,
+        headless: options.headless ?? workflow.headless,
+        profile: workflow.useProfile,
+        recordVideo: videoMode !== "off",
+        // A HAR without bodies could not be replayed
+        captureBodies: harMode !== "off",
+        artifactOwnerId: runId,
+      });
+      // Caller-supplied params win over generated random values
+      const variables = { ...this.generateRandomValues(workflow, sessionId), ...params };
+      for (const spec of workflow.routes ?? []) {
+        // Rules may use {param} and {{secret:NAME}} placeholders, e.g. in headers
+        await addRouteRule(session, substituteVariables(secretStore.resolveDeep(spec), variables));
+      }
+      tracing = traceMode !== "off" && (await this.startTracing(workflow, sessionId));
+      consoleStart = lastConsoleId(session);
+      context = {
+        workflow,
+        session,
+        sessionId,
+        variables,
+        includeStack: [],
+        screenshots: [],
+        pageErrors: { failOnPageError: workflow.failOnPageError === true, consoleMark: consoleStart },
+        downloads: [],
+        signal,
+        onProgress,
+      };
+
+      onProgress?.({ type: "run_started", message: `Running ${workflow.steps.length} steps` });
+      outcome = await this.runSteps(workflow.steps, context, "");
+    } catch (error) {
+      failure = secretStore.redact(error instanceof Error ? error.message : String(error));
+      console.error(`[${sessionId}] Workflow run ${runId} could not run:`, error);
+    }
+
+    const run = this.buildRunResult(
+      {
+        runId,
+        workflow,
+        session,
+        sessionId,
+        params,
+        startTime,
+        cancelled: signal?.aborted === true,
+        failure,
+        requestedBrowser: options.browser ?? workflow.browser,
+        requestedHeadless: options.headless ?? workflow.headless,
+        pageErrors: session
+          ? getConsoleLogs(session, { types: ["pageerror"], sinceId: consoleStart }).entries
+          : [],
+      },
+      outcome.results,
+      outcome.stop
+    );
+    console.log(`[${sessionId}] ${run.message}`);
+
+    const artifacts = [
+      ...(context?.downloads ?? []),
+      ...(await this.saveRecordings(run, {
+        trace: tracing ? traceMode : "off",
+        video: videoMode,
+        har: harMode,
+      })),
+    ];
+    if (artifacts.length > 0) {
+      run.artifacts = artifacts;
+    }
+
+    // A report that cannot be written should not change the run's outcome
+    try {
+      run.reports = reportStore.write(run, context?.screenshots ?? []);
+    } catch (error) {
+      console.error(`[${sessionId}] Could not write reports for run ${runId}:`, error);
+    }
+    return run;
+  }
+
+  // "retain-on-failure" recordings are dropped when the run passed
+  private async saveRecordings(
+    run: WorkflowRunResult,
+    modes: { trace: RecordingMode; video: RecordingMode; har: RecordingMode }
+  ): Promise<ArtifactInfo[]> {
+    const { runId, sessionId } = run;
+    const keep = (mode: RecordingMode) => mode === "on" || run.status !== "passed";
+    const artifacts: ArtifactInfo[] = [];
+
+    if (modes.trace !== "off") {
+      try {
+        const trace = await browserManager.stopTracing(sessionId, {
+          ownerId: runId,
+          name: "trace.zip",
+          save: keep(modes.trace),
+        });
+        if (trace) {
+          artifacts.push(trace);
+        }
+      } catch (error) {
+        console.error(`[${sessionId}] Could not save trace for run ${runId}:`, error);
+      }
+    }
+
+    const session = browserManager.getSession(sessionId);
+    if (modes.har !== "off" && keep(modes.har) && session) {
+      try {
+        artifacts.push(exportHar(session, runId, "network.har"));
+      } catch (error) {
+        console.error(`[${sessionId}] Could not save HAR for run ${runId}:`, error);
+      }
+    }
+
+    // Videos are only written out when their session closes, so a recorded
+    // run closes its session instead of leaving the browser open
+    if (modes.video !== "off") {
+      try {
+        for (const video of await browserManager.closeSession(sessionId)) {
+          if (keep(modes.video)) {
+            artifacts.push(video);
+          } else {
+            artifactStore.delete(video.ownerId, video.name);
+          }
+        }
+      } catch (error) {
+        console.error(`[${sessionId}] Could not save video for run ${runId}:`, error);
+      }
+    }
+
+    return artifacts;
+  }
+
+  // Tracing is a diagnostic aid, so a failure to start it does not fail the run
+  private async startTracing(workflow: WorkflowDefinition, sessionId: string): Promise<boolean> {
+    try {
+      await browserManager.startTracing(sessionId, { title: workflow.name });
+      return true;
+    } catch (error) {
+      console.error(`[${sessionId}] Could not start tracing:`, error);
+      return false;
+    }
+  }
+
+  generateRunId(): string {
+    return `run_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+  }
+
+  private async runSteps(
+    steps: WorkflowStep[],
+    context: RunContext,
+    parentPath: string
+  ): Promise<{ results: StepResult[]; stop?: { path: string; error: string } }> {
+    const { sessionId } = context;
+    const results: StepResult[] = [];
+
+    for (let i = 0; i < steps.length; i++) {
+      const step = steps[i];
+      const path = parentPath ? `${parentPath}.${i + 1}` : `${i + 1}`;
+      const total = parentPath ? `${parentPath}.${steps.length}` : `${steps.length}`;
+
+      if (context.signal?.aborted) {
+        console.log(`[${sessionId}] Run cancelled before step ${path}`);
+        return {
+          results,
+          stop: { path, error: `WORKFLOW CANCELLED: Run was cancelled before step ${path}` },
+        };
+      }
+
+      console.log(`[${sessionId}] Step ${path}/${total}: ${step.description || step.action}`);
+      context.onProgress?.({
+        type: "step_started",
+        path,
+        action: step.action,
+        description: step.description,
+      });
+
+      const outcome = await this.runStep(step, i + 1, path, context);
+      results.push(outcome.result);
+      context.onProgress?.({
+        type: "step_finished",
+        path,
+        action: step.action,
+        description: step.description,
+        status: outcome.result.status,
+        duration: outcome.result.duration,
+        ...(outcome.result.error ? { error: outcome.result.error } : {}),
+      });
+
+      if (outcome.stop) {
+        return { results, stop: outcome.stop };
+      }
+
+      // Wait after step if specified
+      if (outcome.result.status === "passed" && step.waitAfter && step.waitAfter > 0) {
+        console.log(`[${sessionId}] Waiting ${step.waitAfter}ms...`);
+        await this.sleep(step.waitAfter, context.signal);
+      }
+    }
+
+    return { results };
+  }
+
+  private buildRunResult(
+    meta: {
+      runId: string;
+      workflow: WorkflowDefinition;
+      // Missing when the session could not be created
+      session?: BrowserSession;
+      sessionId: string;
+      params: Record<string, any>;
+      startTime: number;
+      cancelled: boolean;
+      // Why the run could not start or finish its steps
+      failure?: string;
+      requestedBrowser?: BrowserEngine;
+      requestedHeadless?: boolean;
+      pageErrors: ConsoleEntry[];
+    },
+    results: StepResult[],
+    stop?: { path: string; error: string }
+  ): WorkflowRunResult {
+    const { workflow, params } = meta;
+    // Block steps (if, repeat, ...) only count when they failed themselves,
+    // not because one of their children did.
+    const leaves = this.flattenResults(results).filter(
+      (r) => !r.children || r.children.length === 0
+    );
+    const stepsExecuted = leaves.length;
+    const failedSteps = leaves.filter((r) => r.status === "failed").length;
+    const skippedSteps = leaves.filter((r) => r.status === "skipped").length;
+    // Steps only see page errors thrown while they ran; this also catches the
+    // ones after the last step checked, e.g. during a final waitAfter
+    const pageErrorsFail = workflow.failOnPageError === true && meta.pageErrors.length > 0;
+    const status = meta.cancelled
+      ? "cancelled"
+      : meta.failure !== undefined || failedSteps > 0 || pageErrorsFail
+        ? "failed"
+        : "passed";
+    const assertions = this.summarizeAssertions(results);
+
+    let message: string;
+    if (meta.failure !== undefined) {
+      message = `Workflow "${workflow.name}" could not run: ${meta.failure}`;
+    } else if (meta.cancelled && stop) {
+      message = `Workflow "${workflow.name}" was cancelled at step ${stop.path}.`;
+    } else if (stop) {
+      message = `Workflow "${workflow.name}" stopped at step ${stop.path}.`;
+    } else if (assertions.failed > 0) {
+      message = `Workflow "${workflow.name}" failed: ${assertions.failed} of ${assertions.total} assertion(s) failed. Executed ${stepsExecuted} steps.`;
+    } else if (failedSteps > 0) {
+      message = `Workflow "${workflow.name}" completed with ${failedSteps} failed step(s). Executed ${stepsExecuted} steps.`;
+    } else if (pageErrorsFail) {
+      message = `Workflow "${workflow.name}" failed: ${meta.pageErrors.length} uncaught page error(s). Executed ${stepsExecuted} steps.`;
+    } else {
+      message = `Workflow "${workflow.name}" completed successfully. Executed ${stepsExecuted} steps.`;
+    }
+
+    return {
+      runId: meta.runId,
+      workflow: workflow.name,
+      message,
+      status,
+      startedAt: new Date(meta.startTime).toISOString(),
+      duration: Date.now() - meta.startTime,
+      stepsExecuted,
+      failedSteps,
+      skippedSteps,
+      ...(stop ? { stoppedAtStep: stop.path, error: stop.error } : {}),
+      ...(meta.failure !== undefined ? { error: meta.failure } : {}),
+      ...(meta.failure === undefined && !stop && pageErrorsFail
+        ? { error: secretStore.redact(`Uncaught page error: ${meta.pageErrors[0].text}`) }
+        : {}),
+      params: secretStore.redactDeep(params),
+      assertions,
+      results,
+      sessionId: meta.sessionId,
+      browser: meta.session?.engine ?? meta.requestedBrowser ?? defaultEngine(),
+      headless: meta.session?.headless ?? meta.requestedHeadless ?? defaultHeadless(),
+      ...(meta.pageErrors.length > 0 ? { pageErrors: secretStore.redactDeep(meta.pageErrors) } : {}),
+      ...(meta.session?.dialogs?.length ? { dialogs: secretStore.redactDeep(meta.session.dialogs) } : {}),
+    };
+  }
+
+  private summarizeAssertions(results: StepResult[]): AssertionSummary {
+    const details = this.flattenResults(results)
+      .filter((r) => r.assertion)
+      .map((r) => ({
+        path: r.path,
+        action: r.action,
+        description: r.description,
+        ...r.assertion!,
+      }));
+    const passed = details.filter((d) => d.passed).length;
+    return { total: details.length, passed, failed: details.length - passed, details };
+  }
+
+  private flattenResults(results: StepResult[]): StepResult[] {
+    return results.flatMap((r) => [r, ...this.flattenResults(r.children || [])]);
+  }
+
+  private generateRandomValues(
+    workflow: WorkflowDefinition,
+    sessionId: string
+  ): Record<string, string> {
+    // Generate random values if preconditions exist
+    const randomValues: Record<string, string> = {};
+    if (!workflow.preconditions?.generateRandomValues) {
+      return randomValues;
+    }
+
+    console.log(`[${sessionId}] Generating random values...`);
+    for (const [key, template] of Object.entries(workflow.preconditions.randomValues || {})) {
+      let value = template;
+
+      // Replace placeholders
+      if (template.includes('{randomNum}')) {
+        value = value.replace('{randomNum}', Math.floor(Math.random() * 1000000).toString().padStart(6, '0'));
+      }
+      if (template.includes('{randomWord}')) {
+        const words = ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon', 'Zeta', 'Eta', 'Theta'];
+        value = value.replace('{randomWord}', words[Math.floor(Math.random() * words.length)]);
+      }
+      if (template.includes('{randomStr}')) {
+        const chars = 'abcdefghijklmnopqrstuvwxyz';
+        const str = Array.from({ length: 5 }, () => chars[Math.floor(Math.random() * chars.length)]).join('');
+        value = value.replace('{randomStr}', str);
+      }
+
+      randomValues[key] = value;
+      console.log(`[${sessionId}] ${key}: ${value}`);
+    }
+
+    return randomValues;
+  }
+
+  // Runs a single step, applying the failure policy for whatever went wrong.
+  // A stop raised inside a block step's children is passed straight up; the
+  // policy only covers errors from the step itself.
+  private async runStep(
+    step: WorkflowStep,
+    stepNumber: number,
+    path: string,
+    context: RunContext
+  ): Promise<StepOutcome> {
+    const { sessionId } = context;
+    const stepStartTime = Date.now();
+    let attempts = 0;
+
+    while (true) {
+      attempts++;
+      const attemptStartTime = Date.now();
+
+      try {
+        let value: any;
+        let children: StepResult[] | undefined;
+        let stop: StepOutcome["stop"];
+
+        if (context.signal?.aborted) {
+          throw new RunCancelledError();
+        }
+
+        if (CONTROL_ACTIONS.includes(step.action)) {
+          const block = await this.executeControlStep(step, path, context);
+          value = block.value;
+          children = block.children;
+          stop = block.stop;
+        } else {
+          value = await this.executeStep(step, path, context);
+          this.checkPageErrors(context);
+        }
+
+        if (step.saveAs) {
+          context.variables[step.saveAs] = value;
+          console.log(`[${sessionId}] Saved result of step ${path} as {${step.saveAs}}`);
+        }
+
+        const stepDuration = Date.now() - stepStartTime;
+        const isAssertion = ASSERTION_ACTIONS.includes(step.action);
+        const childFailed = (children || []).some((c) => c.status === "failed");
+        if (!childFailed) {
+          console.log(`[${sessionId}] Step ${path} completed in ${stepDuration}ms`);
+        }
+
+        return {
+          result: {
+            step: stepNumber,
+            path,
+            action: step.action,
+            description: step.description,
+            success: !childFailed,
+            status: childFailed ? "failed" : "passed",
+            ...(isAssertion
+              ? { assertion: secretStore.redactDeep(value) }
+              : { result: secretStore.redactDeep(value) }),
+            attempts,
+            duration: stepDuration,
+            ...(children ? { children } : {}),
+          },
+          stop,
+        };
+      } catch (error) {
+        const errorMessage = secretStore.redact(
+          error instanceof Error ? error.message : String(error)
+        );
+
+        // Cancellation is not a step failure, so no policy applies to it
+        if (error instanceof RunCancelledError) {
+          const stepDuration = Date.now() - stepStartTime;
+          console.log(`[${sessionId}] Step ${path} interrupted, run cancelled`);
+          return {
+            result: {
+              step: stepNumber,
+              path,
+              action: step.action,
+              description: step.description,
+              success: false,
+              status: "cancelled",
+              error: errorMessage,
+              attempts,
+              duration: stepDuration,
+            },
+            stop: {
+              path,
+              error: `WORKFLOW CANCELLED: Step ${path} (${step.description || step.action}) was interrupted after ${stepDuration}ms`,
+            },
+          };
+        }
+
+        const reason = this.classifyFailure(error);
+        const assertion =
+          error instanceof AssertionError ? secretStore.redactDeep(error.detail) : undefined;
+        // Soft assertions are recorded and never stop or retry the run
+        const rule: FailurePolicyRule =
+          assertion?.mode === "soft"
+            ? { action: "CONTINUE_AND_MARK_FAILED" }
+            : this.resolvePolicy(context.workflow, step, reason);
+        console.error(
+          `[${sessionId}] Step ${path} FAILED after ${Date.now() - attemptStartTime}ms (${reason}): ${errorMessage}`
+        );
+
+        const retries = rule.retries ?? RETRY_DEFAULTS.retries;
+        if (rule.action === "RETRY" && attempts <= retries) {
+          const backoff =
+            (rule.backoffMs ?? RETRY_DEFAULTS.backoffMs) *
+            Math.pow(rule.backoffMultiplier ?? RETRY_DEFAULTS.backoffMultiplier, attempts - 1);
+          console.log(
+            `[${sessionId}] Retrying step ${path} in ${backoff}ms (attempt ${attempts + 1}/${retries + 1})`
+          );
+          await this.sleep(backoff, context.signal);
+          continue;
+        }
+
+        const action =
+          rule.action === "RETRY" ? rule.onExhausted || "STOP_AND_FAIL" : rule.action;
+        const stepDuration = Date.now() - stepStartTime;
+        const result: StepResult = {
+          step: stepNumber,
+          path,
+          action: step.action,
+          description: step.description,
+          success: false,
+          status: action === "SKIP" ? "skipped" : "failed",
+          error: errorMessage,
+          failureReason: reason,
+          policy: action,
+          attempts,
+          duration: stepDuration,
+          ...(assertion ? { assertion } : {}),
+        };
+
+        if (action === "STOP_AND_FAIL") {
+          return {
+            result,
+            stop: {
+              path,
+              error: `WORKFLOW STOPPED: Step ${path} (${step.description || step.action}) failed after ${stepDuration}ms - ${errorMessage}`,
+            },
+          };
+        }
+
+        console.log(
+          `[${sessionId}] Step ${path} ${action === "SKIP" ? "skipped" : "marked failed"}, continuing workflow`
+        );
+        return { result };
+      }
+    }
+  }
+
+  private async executeControlStep(
+    step: WorkflowStep,
+    path: string,
+    context: RunContext
+  ): Promise<BlockOutcome> {
+    const { sessionId } = context;
+
+    switch (step.action) {
+      case "if": {
+        const matched = await this.evaluateCondition(step.condition || {}, context);
+        const branch = matched ? step.then || [] : step.else || [];
+        console.log(`[${sessionId}] Condition ${matched ? "met" : "not met"}, running ${matched ? "then" : "else"} branch (${branch.length} steps)`);
+        const { results, stop } = await this.runSteps(branch, context, path);
+        return { value: { condition: matched, branch: matched ? "then" : "else" }, children: results, stop };
+      }
+
+      case "repeat": {
+        const times = Number(substituteVariables(step.times, context.variables));
+        if (!Number.isInteger(times) || times < 0) {
+          throw new Error(`repeat: "times" must be a non-negative integer, got ${JSON.stringify(step.times)}`);
+        }
+        return this.runIterations(step, Array.from({ length: times }, (_, i) => i), path, context);
+      }
+
+      case "forEach": {
+        let items = substituteVariables(step.items, context.variables);
+        if (typeof items === "string") {
+          items = items.split(",").map((item) => item.trim()).filter(Boolean);
+        }
+        if (!Array.isArray(items)) {
+          throw new Error(`forEach: "items" must be an array or a comma-separated string`);
+        }
+        return this.runIterations(step, items, path, context);
+      }
+
+      case "include": {
+        const name = substituteVariables(step.workflow, context.variables);
+        if (typeof name !== "string") {
+          throw new Error(`include: "workflow" must be a workflow name`);
+        }
+        if (context.includeStack.includes(name)) {
+          throw new Error(`Include cycle detected: ${[...context.includeStack, name].join(" -> ")}`);
+        }
+
+        const included = workflowStore.get(name);
+        const validation = validateWorkflow(included);
+        if (!validation.valid) {
+          throw new Error(`Included workflow "${name}" is invalid: ${validation.errors.join("; ")}`);
+        }
+
+        // Included workflows only see the params passed to them
+        const params = resolveParameters(
+          included,
+          substituteVariables(secretStore.resolveDeep(step.params || {}), context.variables)
+        );
+        console.log(`[${sessionId}] Including workflow "${name}" (${included.steps.length} steps)`);
+        const { results, stop } = await this.runSteps(
+          included.steps,
+          {
+            ...context,
+            workflow: included,
+            variables: { ...this.generateRandomValues(included, sessionId), ...params },
+            includeStack: [...context.includeStack, name],
+          },
+          path
+        );
+        return { value: { workflow: name, params }, children: results, stop };
+      }
+
+      default:
+        throw new Error(`Unknown control action: ${step.action}`);
+    }
+  }
+
+  // Each iteration becomes a child result of its own, so iteration 2 of
+  // step 3 reports its steps as 3.2.1, 3.2.2, ...
+  private async runIterations(
+    step: WorkflowStep,
+    items: any[],
+    path: string,
+    context: RunContext
+  ): Promise<BlockOutcome> {
+    const itemName = step.as || "item";
+    const children: StepResult[] = [];
+
+    for (let i = 0; i < items.length; i++) {
+      const iterationPath = `${path}.${i + 1}`;
+      const iterationStartTime = Date.now();
+      console.log(`[${context.sessionId}] ${step.action} iteration ${i + 1}/${items.length}`);
+
+      const { results, stop } = await this.runSteps(
+        step.steps || [],
+        {
+          ...context,
+          variables: { ...context.variables, index: i, [itemName]: items[i] },
+        },
+        iterationPath
+      );
+      const failed = results.some((r) => r.status === "failed");
+      children.push({
+        step: i + 1,
+        path: iterationPath,
+        action: "iteration",
+        description: step.action === "forEach" ? `${itemName} = ${JSON.stringify(items[i])}` : `iteration ${i + 1}`,
+        success: !failed,
+        status: failed ? "failed" : "passed",
+        result: { index: i, ...(step.action === "forEach" ? { [itemName]: items[i] } : {}) },
+        attempts: 1,
+        duration: Date.now() - iterationStartTime,
+        children: results,
+      });
+
+      if (stop) {
+        return { value: { iterations: i + 1 }, children, stop };
+      }
+    }
+
+    return { value: { iterations: items.length }, children };
+  }
+
+  private async evaluateCondition(
+    condition: WorkflowCondition,
+    context: RunContext
+  ): Promise<boolean> {
+    const c: WorkflowCondition = substituteVariables(condition, context.variables);
+    const page = context.session.page;
+
+    if (c.all) {
+      for (const sub of c.all) {
+        if (!(await this.evaluateCondition(sub, context))) {
+          return false;
+        }
+      }
+      return true;
+    }
+    if (c.any) {
+      for (const sub of c.any) {
+        if (await this.evaluateCondition(sub, context)) {
+          return true;
+        }
+      }
+      return false;
+    }
+    if (c.not) {
+      return !(await this.evaluateCondition(c.not, context));
+    }
+
+    if (c.selectorVisible || c.selectorPresent) {
+      const selector = (c.selectorVisible || c.selectorPresent) as string;
+      const state = c.selectorVisible ? "visible" : "attached";
+      if (!c.timeout) {
+        return state === "visible"
+          ? page.isVisible(selector)
+          : (await page.$(selector)) !== null;
+      }
+      try {
+        await page.waitForSelector(selector, { state, timeout: c.timeout });
+        return true;
+      } catch {
+        return false;
+      }
+    }
+
+    if (c.urlMatches) {
+      return new RegExp(c.urlMatches).test(page.url());
+    }
+
+    if (c.variable) {
+      const value = context.variables[c.variable];
+      if ("equals" in c) {
+        return String(value) === String(c.equals);
+      }
+      if ("notEquals" in c) {
+        return String(value) !== String(c.notEquals);
+      }
+      if (c.matches) {
+        return value !== undefined && new RegExp(c.matches).test(String(value));
+      }
+      return Boolean(value) && value !== "false";
+    }
+
+    throw new Error(
+      "Condition must use one of selectorVisible, selectorPresent, urlMatches, variable, all, any or not"
+    );
+  }
+
+  // With failOnPageError, fails the step if the page threw since the last
+  // check. Errors from between steps, e.g. during waitAfter, count for the
+  // next step.
+  private checkPageErrors(context: RunContext): void {
+    const check = context.pageErrors;
+    if (!check.failOnPageError) {
+      return;
+    }
+    const { entries, total } = getConsoleLogs(context.session, {
+      types: ["pageerror"],
+      sinceId: check.consoleMark,
+    });
+    check.consoleMark = lastConsoleId(context.session);
+    if (total > 0) {
+      const more = total > 1 ? ` (and ${total - 1} more)` : "";
+      throw new PageErrorFailure(`Uncaught page error: ${entries[0].text}${more}`);
+    }
+  }
+
+  private classifyFailure(error: unknown): FailureReason {
+    const message = error instanceof Error ? error.message : String(error);
+
+    if (error instanceof AssertionError) {
+      return "ASSERTION_FAILED";
+    }
+    // The page's own message could look like any of the reasons below
+    if (error instanceof PageErrorFailure) {
+      return "UNKNOWN";
+    }
+    if (/net::ERR_|NS_ERROR_|ECONNREFUSED|ENOTFOUND|No response matching/.test(message)) {
+      return "NETWORK_ERROR";
+    }
+    // Playwright reports a missing element as a timeout whose call log never
+    // got past "waiting for locator"; once it resolves, the log says so.
+    if (/waiting for (locator|selector)/.test(message) && !/resolved to/.test(message)) {
+      return "SELECTOR_NOT_FOUND";
+    }
+    if (
+      (error instanceof Error && error.name === "TimeoutError") ||
+      /Timeout \d+ms exceeded|STEP TIMEOUT|within \d+ms/.test(message)
+    ) {
+      return "TIMEOUT";
+    }
+    return "UNKNOWN";
+  }
+
+  // Step-level overrides win over the workflow's failurePolicy; onError is
+  // the fallback for any reason without its own entry.
+  private resolvePolicy(
+    workflow: WorkflowDefinition,
+    step: WorkflowStep,
+    reason: FailureReason
+  ): FailurePolicyRule {
+    const key = FAILURE_POLICY_KEYS[reason];
+    let value: FailurePolicyValue | undefined;
+
+    if (step.onFailure) {
+      value = this.isPolicyValue(step.onFailure)
+        ? step.onFailure
+        : (step.onFailure as FailurePolicy)[key] ?? (step.onFailure as FailurePolicy).onError;
+    }
+    value = value ?? workflow.failurePolicy?.[key] ?? workflow.failurePolicy?.onError;
+
+    const rule: FailurePolicyRule =
+      typeof value === "string" ? { action: value } : value || { action: "STOP_AND_FAIL" };
+
+    if (!FAILURE_ACTIONS.includes(rule.action)) {
+      console.warn(`Unknown failure policy "${rule.action}", using STOP_AND_FAIL`);
+      return { action: "STOP_AND_FAIL" };
+    }
+    return rule;
+  }
+
+  // Resolves early when the run is cancelled; the caller checks the signal next
+  private sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve) => {
+      const timer = setTimeout(done, ms);
+      signal?.addEventListener("abort", done, { once: true });
+      function done() {
+        clearTimeout(timer);
+        signal?.removeEventListener("abort", done);
+        resolve();
+      }
+    });
+  }
+
+  private isPolicyValue(value: FailurePolicyValue | FailurePolicy): value is FailurePolicyValue {
+    return typeof value === "string" || "action" in value;
+  }
+
+  private async executeStep(
+    step: WorkflowStep,
+    path: string,
+    context: RunContext
+  ): Promise<any> {
+    const { session, sessionId, variables } = context;
+    // {timestamp} is fresh for every step
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-').slice(0, -5);
+
+    // Secrets are resolved in the step as written, before {name} variables
+    // go in: a variable holding {{secret:NAME}}, e.g. text saved from the
+    // page, stays as it is. Both work on copies, so the definition never
+    // holds plaintext secrets.
+    const args = substituteVariables(secretStore.resolveDeep(step.arguments || {}), {
+      timestamp,
+      ...variables,
+    });
+
+    // Execute the step based on action type with global timeout protection
+    const stepPromise = (async () => {
+      switch (step.action) {
+        case "open_page":
+          await session.page.goto(args.url, {
+            waitUntil: args.waitUntil || "networkidle",
+            timeout: Math.min(args.timeout || 60000, GLOBAL_TIMEOUT),
+          });
+          return { url: session.page.url(), title: await session.page.title() };
+
+        case "click":
+          await session.page.click(args.selector, { timeout: GLOBAL_TIMEOUT });
+          return { clicked: args.selector };
+
+        case "fill":
+          await session.page.fill(args.selector, args.text, { timeout: GLOBAL_TIMEOUT });
+          return { filled: args.selector, text: args.text };
+
+        case "focus":
+          await session.page.focus(args.selector);
+          return { focused: args.selector };
+
+        case "type":
+          await session.page.type(args.selector, args.text, { delay: args.delay || 0 });
+          return { typed: args.selector, text: args.text };
+
+        case "press":
+          await pressKey(session.page, args.key, args.selector, GLOBAL_TIMEOUT);
+          return { pressed: args.key, ...(args.selector ? { selector: args.selector } : {}) };
+
+        case "hover":
+          await session.page.hover(args.selector, { timeout: GLOBAL_TIMEOUT });
+          return { hovered: args.selector };
+
+        case "select_option":
+          return {
+            selector: args.selector,
+            selected: await selectOptions(session.page, args.selector, args, GLOBAL_TIMEOUT),
+          };
+
+        case "check":
+        case "uncheck":
+          return {
+            selector: args.selector,
+            checked: await setChecked(session.page, args.selector, step.action === "check", GLOBAL_TIMEOUT),
+          };
+
+        case "drag_and_drop":
+          await dragAndDrop(session.page, args.source, args.target, GLOBAL_TIMEOUT);
+          return { dragged: args.source, droppedOn: args.target };
+
+        case "scroll_into_view":
+          await scrollIntoView(session.page, args.selector, GLOBAL_TIMEOUT);
+          return { scrolledTo: args.selector };
+
+        case "mouse_click":
+          await mouseClick(session.page, args.x, args.y, args);
+          return { clicked: { x: args.x, y: args.y } };
+
+        case "wait_for_selector":
+          const timeout = Math.min(args.timeout || 30000, GLOBAL_TIMEOUT);
+          await session.page.waitForSelector(args.selector, { timeout, state: args.state });
+          return args.state ? { selector: args.selector, state: args.state } : { appeared: args.selector };
+
+        case "wait_for_enabled":
+          const waitTimeout = Math.min(args.timeout || 30000, GLOBAL_TIMEOUT);
+          const selector = args.selector;
+          const checkInterval = 500;
+          const startTime = Date.now();
+
+          while (Date.now() - startTime < waitTimeout) {
+            try {
+              const isDisabled = await session.page.evaluate((sel: string) => {
+                const elem = document.querySelector(sel);
+                return (elem as HTMLElement)?.getAttribute('data-disabled') === 'true' || elem?.hasAttribute('disabled');
+              }, selector);
+
+              if (!isDisabled) {
+                return { enabled: selector };
+              }
+            } catch (evalError) {
+              console.log(`[${sessionId}] Still waiting for element ${selector} to be available...`);
+            }
+            await new Promise(r => setTimeout(r, checkInterval));
+          }
+          throw new Error(`Element ${selector} did not become enabled within ${waitTimeout}ms`);
+
+        case "wait_for_network":
+        case "wait_for_response": {
+          // wait_for_network is the older name, kept for existing workflows
+          const matcher = { url: args.url, urlRegex: args.urlRegex, method: args.method };
+          console.log(`[${sessionId}] Waiting for network response: ${describeMatcher(matcher)}`);
+          const response = await waitForResponse(session, {
+            ...matcher,
+            timeout: Math.min(args.timeout || 30000, GLOBAL_TIMEOUT),
+            lookback: args.lookback,
+          });
+          if (args.status !== undefined && response.status !== args.status) {
+            throw new AssertionError({
+              passed: false,
+              mode: "hard",
+              expected: `status ${args.status}`,
+              actual: response.status,
+              message: `${step.action} failed: ${response.method} ${response.url} returned ${response.status} ${response.statusText}, expected ${args.status}`,
+            });
+          }
+          return response;
+        }
+
+        case "assert_text":
+        case "assert_visible":
+        case "assert_url":
+        case "assert_title":
+        case "assert_count":
+        case "assert_attribute":
+          return runAssertion(session.page, step.action, args);
+
+        case "get_text":
+          return getText(session.page, args.selector);
+
+        case "get_html":
+          return getHtml(session.page, args.selector, args.outer ?? true);
+
+        case "query_all":
+          return queryAll(session.page, args.selector, args.attributes, args.limit);
+
+        case "extract_table":
+          return extractTable(session.page, args.selector);
+
+        case "new_tab": {
+          const page = await openTab(session);
+          if (args.url) {
+            await page.goto(args.url, { waitUntil: "networkidle", timeout: 60000 });
+          }
+          return describeTab(session, page);
+        }
+
+        case "switch_tab":
+          return describeTab(session, await switchTab(session, args.id));
+
+        case "close_tab":
+          return { closed: await closeTab(session, args.id) };
+
+        case "wait_for_popup": {
+          const page = session.page;
+          const popup = await waitForPopup(
+            session,
+            () => page.click(args.selector, { timeout: GLOBAL_TIMEOUT }),
+            { timeout: Math.min(args.timeout || 30000, GLOBAL_TIMEOUT), activate: args.activate !== false }
+          );
+          return describeTab(session, popup);
+        }
+
+        case "upload_file":
+          return { uploaded: args.selector, files: await uploadFiles(session, args.selector, args.files) };
+
+        case "download": {
+          const page = session.page;
+          const download = await downloadFile(
+            session,
+            () => page.click(args.selector, { timeout: GLOBAL_TIMEOUT }),
+            {
+              ownerId: session.artifactOwnerId || sessionId,
+              name: args.name,
+              timeout: Math.min(args.timeout || 30000, GLOBAL_TIMEOUT),
+            }
+          );
+          context.downloads.push(download.artifact);
+          return download;
+        }
+
+        case "set_dialog_policy":
+          setDialogPolicy(session, { action: args.action, promptText: args.promptText, once: args.once });
+          return { dialogPolicy: secretStore.redactDeep(getDialogPolicy(session)) };
+
+        case "save_profile":
+          return browserManager.saveProfile(sessionId, args.name);
+
+        case "screenshot":
+          const buffer = await session.page.screenshot();
+          const base64 = buffer.toString("base64");
+          context.screenshots.push({ path, data: base64 });
+          return { screenshot: `${base64.substring(0, 50)}... (${base64.length} chars)` };
+
+        default:
+          throw new Error(`Unknown action: ${step.action}`);
+      }
+    })();
+
+    // Wrap with timeout protection, and stop waiting as soon as the run is cancelled
+    let timer: NodeJS.Timeout | undefined;
+    let onAbort: (() => void) | undefined;
+    try {
+      return await Promise.race([
+        stepPromise,
+        new Promise((_, reject) => {
+          timer = setTimeout(() => reject(new Error(`STEP TIMEOUT: Operation exceeded 60 seconds - ${step.action} on ${args.selector || 'N/A'}`)), GLOBAL_TIMEOUT);
+        }),
+        new Promise((_, reject) => {
+          onAbort = () => reject(new RunCancelledError(`Run cancelled during ${step.action}`));
+          context.signal?.addEventListener("abort", onAbort, { once: true });
+        }),
+      ]);
+    } finally {
+      clearTimeout(timer);
+      if (onAbort) {
+        context.signal?.removeEventListener("abort", onAbort);
+      }
+    }
+  }
+}
+
+export const workflowRunner = new WorkflowRunner();
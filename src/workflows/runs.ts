@@ -0,0 +1,190 @@
+import { EventEmitter } from "events";
+import { browserManager } from "../playwright/browser";
+import {
+  WorkflowDefinition,
+  WorkflowProgressEvent,
+  WorkflowProgressUpdate,
+  WorkflowRunInfo,
+  WorkflowRunLinks,
+  WorkflowRunResult,
+} from "../types";
+import { WorkflowRunOptions, workflowRunner } from "./runner";
+import { secretStore } from "./secrets";
+
+// Finished runs kept in memory for polling; reports/ keeps them for good
+const MAX_FINISHED_RUNS = 50;
+
+interface TrackedRun {
+  info: WorkflowRunInfo;
+  events: WorkflowProgressEvent[];
+  emitter: EventEmitter;
+  controller: AbortController;
+}
+
+class RunManager {
+  private runs: Map<string, TrackedRun> = new Map();
+
+  // Starts a run in the background. The returned promise settles with the
+  // run result; progress is available through get() and subscribe().
+  start(
+    workflow: WorkflowDefinition,
+    sessionId: string,
+    params: Record<string, any> = {},
+    options: Pick<WorkflowRunOptions, "trace" | "video" | "har" | "browser" | "headless"> = {}
+  ): { runId: string; promise: Promise<WorkflowRunResult> } {
+    // Every run starts by closing all browser sessions, so two at once would
+    // pull the browser out from under each other
+    const active = this.list().find((info) => info.status === "running");
+    if (active) {
+      throw new Error(
+        `Workflow run ${active.runId} (${active.workflow}) is still in progress. Wait for it to finish or cancel it with DELETE /runs/${active.runId}`
+      );
+    }
+
+    const runId = workflowRunner.generateRunId();
+    const controller = new AbortController();
+    const tracked: TrackedRun = {
+      info: {
+        runId,
+        workflow: workflow.name,
+        sessionId,
+        status: "running",
+        startedAt: new Date().toISOString(),
+        stepsFinished: 0,
+        cancelRequested: false,
+        links: this.links(runId),
+      },
+      events: [],
+      emitter: new EventEmitter(),
+      controller,
+    };
+    this.runs.set(runId, tracked);
+    this.prune();
+
+    const promise = workflowRunner
+      .run(workflow, sessionId, params, {
+        ...options,
+        runId,
+        signal: controller.signal,
+        onProgress: (update) => this.record(tracked, update),
+      })
+      .then(
+        async (result) => {
+          await this.finish(tracked, result.status, result);
+          return result;
+        },
+        async (error) => {
+          const errorMessage = secretStore.redact(
+            error instanceof Error ? error.message : String(error)
+          );
+          await this.finish(tracked, controller.signal.aborted ? "cancelled" : "failed", undefined, errorMessage);
+          throw error;
+        }
+      );
+    // Background runs have nobody awaiting them
+    promise.catch(() => undefined);
+
+    return { runId, promise };
+  }
+
+  get(runId: string): WorkflowRunInfo | undefined {
+    return this.runs.get(runId)?.info;
+  }
+
+  list(): WorkflowRunInfo[] {
+    return Array.from(this.runs.values())
+      .map((tracked) => tracked.info)
+      .reverse();
+  }
+
+  getEvents(runId: string, afterId: number = -1): WorkflowProgressEvent[] {
+    return (this.runs.get(runId)?.events || []).filter((event) => event.id > afterId);
+  }
+
+  // Returns an unsubscribe function
+  subscribe(runId: string, listener: (event: WorkflowProgressEvent) => void): () => void {
+    const tracked = this.runs.get(runId);
+    if (!tracked) {
+      return () => undefined;
+    }
+    tracked.emitter.on("event", listener);
+    return () => tracked.emitter.off("event", listener);
+  }
+
+  cancel(runId: string): boolean {
+    const tracked = this.runs.get(runId);
+    if (!tracked || tracked.info.status !== "running") {
+      return false;
+    }
+    console.log(`[RUNS] Cancelling run ${runId}`);
+    tracked.info.cancelRequested = true;
+    tracked.controller.abort();
+    return true;
+  }
+
+  links(runId: string): WorkflowRunLinks {
+    return { status: `/runs/${runId}`, events: `/runs/${runId}/events` };
+  }
+
+  private record(tracked: TrackedRun, update: WorkflowProgressUpdate): void {
+    const event: WorkflowProgressEvent = {
+      id: tracked.events.length,
+      runId: tracked.info.runId,
+      timestamp: new Date().toISOString(),
+      ...update,
+      ...(update.error ? { error: secretStore.redact(update.error) } : {}),
+    };
+    tracked.events.push(event);
+
+    if (update.type === "step_started") {
+      tracked.info.currentStep = update.path;
+    } else if (update.type === "step_finished") {
+      tracked.info.stepsFinished++;
+    }
+    tracked.emitter.emit("event", event);
+  }
+
+  private async finish(
+    tracked: TrackedRun,
+    status: WorkflowRunInfo["status"],
+    result?: WorkflowRunResult,
+    error?: string
+  ): Promise<void> {
+    const { info } = tracked;
+
+    // The step that was interrupted may still be waiting on the page; closing
+    // the session makes it give up instead of running on in the background
+    if (status === "cancelled") {
+      try {
+        await browserManager.closeSession(info.sessionId);
+      } catch (closeError) {
+        console.error(`[RUNS] Error closing session of cancelled run ${info.runId}:`, closeError);
+      }
+    }
+
+    info.status = status;
+    info.finishedAt = new Date().toISOString();
+    info.currentStep = undefined;
+    info.error = error ?? result?.error;
+    info.result = result;
+
+    this.record(tracked, {
+      type: "run_finished",
+      status,
+      message: result?.message ?? error,
+    });
+    tracked.emitter.removeAllListeners();
+    console.log(`[RUNS] Run ${info.runId} finished: ${status}`);
+  }
+
+  private prune(): void {
+    const finished = Array.from(this.runs.values()).filter(
+      (tracked) => tracked.info.status !== "running"
+    );
+    for (const tracked of finished.slice(0, Math.max(0, finished.length - MAX_FINISHED_RUNS))) {
+      this.runs.delete(tracked.info.runId);
+    }
+  }
+}
+
+export const runManager = new RunManager();
@@ -0,0 +1,676 @@
+import { BROWSER_ENGINES, isBrowserEngine } from "../playwright/browser";
+import { DIALOG_ACTIONS } from "../playwright/dialogs";
+import { validateUploadFiles } from "../playwright/files";
+import { MOUSE_BUTTONS } from "../playwright/interactions";
+import { validateRouteRule } from "../playwright/mocking";
+import { profileStore } from "../profiles/store";
+import { FailureAction, RecordingMode, WorkflowValidationResult } from "../types";
+import { isObject } from "../validation";
+import { workflowStore } from "./store";
+import { PARAMETER_TYPES } from "./variables";
+
+type ArgumentType = "string" | "number" | "boolean" | "object" | "array";
+
+interface ArgumentSchema {
+  // A list accepts any of the types
+  type: ArgumentType | ArgumentType[];
+  required?: boolean;
+  values?: string[];
+}
+
+interface ActionSchema {
+  description: string;
+  arguments: Record<string, ArgumentSchema>;
+  // At least one of these arguments must be given
+  requireOneOf?: string[];
+}
+
+const ASSERTION_MODE: ArgumentSchema = { type: "string", values: ["hard", "soft"] };
+
+export const WORKFLOW_ACTIONS: Record<string, ActionSchema> = {
+  open_page: {
+    description: "Navigate to a URL",
+    arguments: {
+      url: { type: "string", required: true },
+      waitUntil: { type: "string", values: ["load", "domcontentloaded", "networkidle", "commit"] },
+      timeout: { type: "number" },
+    },
+  },
+  click: {
+    description: "Click an element",
+    arguments: {
+      selector: { type: "string", required: true },
+    },
+  },
+  fill: {
+    description: "Fill an input field",
+    arguments: {
+      selector: { type: "string", required: true },
+      text: { type: "string", required: true },
+    },
+  },
+  focus: {
+    description: "Focus an element",
+    arguments: {
+      selector: { type: "string", required: true },
+    },
+  },
+  type: {
+    description: "Type text character by character",
+    arguments: {
+      selector: { type: "string", required: true },
+      text: { type: "string", required: true },
+      delay: { type: "number" },
+    },
+  },
+  press: {
+    description: "Press a key or combination, on an element or wherever the focus is",
+    arguments: {
+      key: { type: "string", required: true },
+      selector: { type: "string" },
+    },
+  },
+  hover: {
+    description: "Move the mouse over an element",
+    arguments: {
+      selector: { type: "string", required: true },
+    },
+  },
+  select_option: {
+    description: "Select options of a <select> element by value or label",
+    arguments: {
+      selector: { type: "string", required: true },
+      values: { type: ["string", "array"] },
+      labels: { type: ["string", "array"] },
+    },
+    requireOneOf: ["values", "labels"],
+  },
+  check: {
+    description: "Check a checkbox or radio button",
+    arguments: {
+      selector: { type: "string", required: true },
+    },
+  },
+  uncheck: {
+    description: "Uncheck a checkbox",
+    arguments: {
+      selector: { type: "string", required: true },
+    },
+  },
+  drag_and_drop: {
+    description: "Drag one element onto another",
+    arguments: {
+      source: { type: "string", required: true },
+      target: { type: "string", required: true },
+    },
+  },
+  scroll_into_view: {
+    description: "Scroll the page until an element is visible",
+    arguments: {
+      selector: { type: "string", required: true },
+    },
+  },
+  mouse_click: {
+    description: "Click at coordinates in the page",
+    arguments: {
+      x: { type: "number", required: true },
+      y: { type: "number", required: true },
+      button: { type: "string", values: MOUSE_BUTTONS },
+      clickCount: { type: "number" },
+    },
+  },
+  wait_for_selector: {
+    description: "Wait for an element to appear",
+    arguments: {
+      selector: { type: "string", required: true },
+      timeout: { type: "number" },
+      state: { type: "string", values: ["attached", "detached", "visible", "hidden"] },
+    },
+  },
+  wait_for_enabled: {
+    description: "Wait for an element to lose its disabled state",
+    arguments: {
+      selector: { type: "string", required: true },
+      timeout: { type: "number" },
+    },
+  },
+  wait_for_network: {
+    description: "Wait for a response whose URL contains the given text (same as wait_for_response)",
+    arguments: {
+      url: { type: "string", required: true },
+      timeout: { type: "number" },
+    },
+  },
+  wait_for_response: {
+    description: "Wait for a matching response and optionally check its status",
+    arguments: {
+      url: { type: "string" },
+      urlRegex: { type: "string" },
+      method: { type: "string" },
+      status: { type: "number" },
+      timeout: { type: "number" },
+      lookback: { type: "number" },
+    },
+  },
+  screenshot: {
+    description: "Take a screenshot",
+    arguments: {},
+  },
+  assert_text: {
+    description: "Assert the text of an element",
+    arguments: {
+      selector: { type: "string", required: true },
+      text: { type: "string" },
+      contains: { type: "string" },
+      matches: { type: "string" },
+      timeout: { type: "number" },
+      mode: ASSERTION_MODE,
+    },
+    requireOneOf: ["text", "contains", "matches"],
+  },
+  assert_visible: {
+    description: "Assert that an element is visible (or hidden with visible: false)",
+    arguments: {
+      selector: { type: "string", required: true },
+      visible: { type: "boolean" },
+      timeout: { type: "number" },
+      mode: ASSERTION_MODE,
+    },
+  },
+  assert_url: {
+    description: "Assert the current URL",
+    arguments: {
+      url: { type: "string" },
+      contains: { type: "string" },
+      matches: { type: "string" },
+      timeout: { type: "number" },
+      mode: ASSERTION_MODE,
+    },
+    requireOneOf: ["url", "contains", "matches"],
+  },
+  assert_title: {
+    description: "Assert the page title",
+    arguments: {
+      title: { type: "string" },
+      contains: { type: "string" },
+      matches: { type: "string" },
+      timeout: { type: "number" },
+      mode: ASSERTION_MODE,
+    },
+    requireOneOf: ["title", "contains", "matches"],
+  },
+  assert_count: {
+    description: "Assert how many elements match a selector",
+    arguments: {
+      selector: { type: "string", required: true },
+      count: { type: "number" },
+      min: { type: "number" },
+      max: { type: "number" },
+      timeout: { type: "number" },
+      mode: ASSERTION_MODE,
+    },
+    requireOneOf: ["count", "min", "max"],
+  },
+  assert_attribute: {
+    description: "Assert an attribute of an element; without value, only that it exists",
+    arguments: {
+      selector: { type: "string", required: true },
+      attribute: { type: "string", required: true },
+      value: { type: "string" },
+      contains: { type: "string" },
+      matches: { type: "string" },
+      timeout: { type: "number" },
+      mode: ASSERTION_MODE,
+    },
+  },
+  get_text: {
+    description: "Read the rendered text of the page or of an element",
+    arguments: {
+      selector: { type: "string" },
+    },
+  },
+  get_html: {
+    description: "Read the HTML of the page or of an element",
+    arguments: {
+      selector: { type: "string" },
+      outer: { type: "boolean" },
+    },
+  },
+  query_all: {
+    description: "List the elements matching a selector with chosen attributes",
+    arguments: {
+      selector: { type: "string", required: true },
+      attributes: { type: "array" },
+      limit: { type: "number" },
+    },
+  },
+  extract_table: {
+    description: "Read an HTML table as an array of row objects",
+    arguments: {
+      selector: { type: "string", required: true },
+    },
+  },
+  new_tab: {
+    description: "Open a new tab, optionally at a URL, and make it the active tab",
+    arguments: {
+      url: { type: "string" },
+    },
+  },
+  switch_tab: {
+    description: "Make another tab the active tab",
+    arguments: {
+      id: { type: "string", required: true },
+    },
+  },
+  close_tab: {
+    description: "Close a tab, by default the active one",
+    arguments: {
+      id: { type: "string" },
+    },
+  },
+  wait_for_popup: {
+    description: "Click an element that opens a popup and make the popup the active tab",
+    arguments: {
+      selector: { type: "string", required: true },
+      timeout: { type: "number" },
+      activate: { type: "boolean" },
+    },
+  },
+  upload_file: {
+    description: "Set the files of a file input",
+    arguments: {
+      selector: { type: "string", required: true },
+      files: { type: "array", required: true },
+    },
+  },
+  download: {
+    description: "Click an element that starts a download and save the file as an artifact",
+    arguments: {
+      selector: { type: "string", required: true },
+      name: { type: "string" },
+      timeout: { type: "number" },
+    },
+  },
+  set_dialog_policy: {
+    description: "Choose how alert, confirm, prompt and beforeunload dialogs are answered",
+    arguments: {
+      action: { type: "string", required: true, values: DIALOG_ACTIONS },
+      promptText: { type: "string" },
+      once: { type: "boolean" },
+    },
+  },
+  save_profile: {
+    description: "Save the session's cookies and localStorage as a named profile",
+    arguments: {
+      name: { type: "string", required: true },
+    },
+  },
+};
+
+export const CONTROL_ACTIONS = ["if", "repeat", "forEach", "include"];
+
+const CONDITION_KEYS = ["selectorVisible", "selectorPresent", "urlMatches", "variable", "all", "any", "not"];
+
+export const FAILURE_ACTIONS: FailureAction[] = [
+  "STOP_AND_FAIL",
+  "RETRY",
+  "SKIP",
+  "CONTINUE_AND_MARK_FAILED",
+];
+
+export const RECORDING_MODES: RecordingMode[] = ["off", "on", "retain-on-failure"];
+
+const FAILURE_POLICY_KEYS = [
+  "onTimeout",
+  "onSelectorNotFound",
+  "onNetworkError",
+  "onAssertionFailed",
+  "onError",
+];
+
+function typeOf(value: any): string {
+  if (Array.isArray(value)) {
+    return "array";
+  }
+  return value === null ? "null" : typeof value;
+}
+
+// Placeholders such as {timeout} are substituted at run time, so a string
+// holding one is accepted wherever another type is expected.
+function matchesType(value: any, type: ArgumentType | ArgumentType[]): boolean {
+  if ((Array.isArray(type) ? type : [type]).includes(typeOf(value) as ArgumentType)) {
+    return true;
+  }
+  return typeof value === "string" && /\{[^}]+\}/.test(value);
+}
+
+function validatePolicyValue(value: any, where: string, errors: string[]): void {
+  if (typeof value === "string") {
+    if (!FAILURE_ACTIONS.includes(value as FailureAction)) {
+      errors.push(`${where}: unknown policy "${value}"`);
+    }
+    return;
+  }
+  if (!isObject(value) || typeof value.action !== "string") {
+    errors.push(`${where}: must be a policy name or an object with an "action"`);
+    return;
+  }
+  if (!FAILURE_ACTIONS.includes(value.action as FailureAction)) {
+    errors.push(`${where}.action: unknown policy "${value.action}"`);
+  }
+  for (const key of ["retries", "backoffMs", "backoffMultiplier"]) {
+    if (key in value && (typeof value[key] !== "number" || value[key] < 0)) {
+      errors.push(`${where}.${key}: must be a non-negative number`);
+    }
+  }
+  if (
+    "onExhausted" in value &&
+    (value.onExhausted === "RETRY" || !FAILURE_ACTIONS.includes(value.onExhausted))
+  ) {
+    errors.push(`${where}.onExhausted: must be STOP_AND_FAIL, SKIP or CONTINUE_AND_MARK_FAILED`);
+  }
+}
+
+function validatePolicyBlock(value: any, where: string, errors: string[]): void {
+  if (!isObject(value)) {
+    errors.push(`${where}: must be an object`);
+    return;
+  }
+  for (const [key, policy] of Object.entries(value)) {
+    if (!FAILURE_POLICY_KEYS.includes(key)) {
+      errors.push(`${where}.${key}: unknown failure reason (expected ${FAILURE_POLICY_KEYS.join(", ")})`);
+      continue;
+    }
+    validatePolicyValue(policy, `${where}.${key}`, errors);
+  }
+}
+
+function validateParameters(parameters: any, errors: string[]): void {
+  if (!isObject(parameters)) {
+    errors.push("parameters: must be an object");
+    return;
+  }
+  for (const [name, spec] of Object.entries(parameters)) {
+    const where = `parameters.${name}`;
+    if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(name)) {
+      errors.push(`${where}: name must start with a letter or "_" and contain only letters, digits and "_"`);
+    }
+    if (!isObject(spec)) {
+      errors.push(`${where}: must be an object`);
+      continue;
+    }
+    if (!PARAMETER_TYPES.includes(spec.type)) {
+      errors.push(`${where}.type: must be one of ${PARAMETER_TYPES.join(", ")}`);
+    } else if ("default" in spec && typeof spec.default !== spec.type) {
+      errors.push(`${where}.default: must be of type "${spec.type}"`);
+    }
+    if ("required" in spec && typeof spec.required !== "boolean") {
+      errors.push(`${where}.required: must be a boolean`);
+    }
+    if ("description" in spec && typeof spec.description !== "string") {
+      errors.push(`${where}.description: must be a string`);
+    }
+  }
+}
+
+function validateCondition(condition: any, where: string, errors: string[]): void {
+  if (!isObject(condition)) {
+    errors.push(`${where}: must be an object`);
+    return;
+  }
+
+  const kinds = CONDITION_KEYS.filter((key) => key in condition);
+  if (kinds.length !== 1) {
+    errors.push(`${where}: must use exactly one of ${CONDITION_KEYS.join(", ")}`);
+    return;
+  }
+
+  const kind = kinds[0];
+  if (kind === "all" || kind === "any") {
+    if (!Array.isArray(condition[kind]) || condition[kind].length === 0) {
+      errors.push(`${where}.${kind}: must be a non-empty array of conditions`);
+      return;
+    }
+    condition[kind].forEach((sub: any, i: number) =>
+      validateCondition(sub, `${where}.${kind}[${i}]`, errors)
+    );
+  } else if (kind === "not") {
+    validateCondition(condition.not, `${where}.not`, errors);
+  } else if (typeof condition[kind] !== "string") {
+    errors.push(`${where}.${kind}: must be a string`);
+  }
+
+  if ("timeout" in condition && !matchesType(condition.timeout, "number")) {
+    errors.push(`${where}.timeout: must be a number`);
+  }
+  for (const key of ["urlMatches", "matches"]) {
+    if (typeof condition[key] === "string") {
+      try {
+        new RegExp(condition[key]);
+      } catch {
+        errors.push(`${where}.${key}: is not a valid regular expression`);
+      }
+    }
+  }
+}
+
+function validateSteps(
+  steps: any,
+  where: string,
+  errors: string[],
+  warnings: string[],
+  allowEmpty: boolean
+): void {
+  if (!Array.isArray(steps) || (!allowEmpty && steps.length === 0)) {
+    errors.push(`${where}: must be a ${allowEmpty ? "" : "non-empty "}array of steps`);
+    return;
+  }
+  steps.forEach((step: any, i: number) =>
+    validateStep(step, `${where}[${i}]`, errors, warnings)
+  );
+}
+
+function validateControlStep(
+  step: Record<string, any>,
+  where: string,
+  errors: string[],
+  warnings: string[]
+): void {
+  switch (step.action) {
+    case "if":
+      validateCondition(step.condition, `${where}.condition`, errors);
+      validateSteps(step.then, `${where}.then`, errors, warnings, false);
+      if ("else" in step) {
+        validateSteps(step.else, `${where}.else`, errors, warnings, true);
+      }
+      break;
+    case "repeat":
+      if (!matchesType(step.times, "number")) {
+        errors.push(`${where}.times: must be a number`);
+      }
+      validateSteps(step.steps, `${where}.steps`, errors, warnings, false);
+      break;
+    case "forEach":
+      if (!Array.isArray(step.items) && typeof step.items !== "string") {
+        errors.push(`${where}.items: must be an array or a string`);
+      }
+      if ("as" in step && (typeof step.as !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(step.as))) {
+        errors.push(`${where}.as: must be a variable name`);
+      }
+      validateSteps(step.steps, `${where}.steps`, errors, warnings, false);
+      break;
+    case "include":
+      if (typeof step.workflow !== "string" || !step.workflow) {
+        errors.push(`${where}.workflow: must be a workflow name`);
+      } else if (!/\{[^}]+\}/.test(step.workflow) && !workflowStore.exists(step.workflow)) {
+        warnings.push(`${where}.workflow: workflow "${step.workflow}" does not exist yet`);
+      }
+      if ("params" in step && !isObject(step.params)) {
+        errors.push(`${where}.params: must be an object`);
+      }
+      break;
+  }
+}
+
+function validateStep(
+  step: any,
+  where: string,
+  errors: string[],
+  warnings: string[]
+): void {
+  if (!isObject(step)) {
+    errors.push(`${where}: must be an object`);
+    return;
+  }
+
+  if (typeof step.action !== "string") {
+    errors.push(`${where}.action: is required`);
+    return;
+  }
+  if (CONTROL_ACTIONS.includes(step.action)) {
+    validateControlStep(step, where, errors, warnings);
+    validateCommonStepFields(step, where, errors);
+    return;
+  }
+
+  const schema = WORKFLOW_ACTIONS[step.action];
+  if (!schema) {
+    errors.push(
+      `${where}.action: unknown action "${step.action}" (expected one of ${[...Object.keys(WORKFLOW_ACTIONS), ...CONTROL_ACTIONS].join(", ")})`
+    );
+    return;
+  }
+
+  const args = step.arguments ?? {};
+  if (!isObject(args)) {
+    errors.push(`${where}.arguments: must be an object`);
+    return;
+  }
+
+  for (const [name, spec] of Object.entries(schema.arguments)) {
+    if (!(name in args)) {
+      if (spec.required) {
+        errors.push(`${where}.arguments.${name}: is required for "${step.action}"`);
+      }
+      continue;
+    }
+    if (!matchesType(args[name], spec.type)) {
+      errors.push(
+        `${where}.arguments.${name}: must be of type "${[spec.type].flat().join('" or "')}", got "${typeOf(args[name])}"`
+      );
+    } else if (spec.values && !spec.values.includes(args[name])) {
+      errors.push(`${where}.arguments.${name}: must be one of ${spec.values.join(", ")}`);
+    }
+  }
+  if (schema.requireOneOf && !schema.requireOneOf.some((name) => name in args)) {
+    errors.push(
+      `${where}.arguments: "${step.action}" needs one of ${schema.requireOneOf.join(", ")}`
+    );
+  }
+  if (step.action === "upload_file" && Array.isArray(args.files)) {
+    errors.push(...validateUploadFiles(args.files, `${where}.arguments.files`));
+  }
+  if (typeof args.matches === "string") {
+    try {
+      new RegExp(args.matches);
+    } catch {
+      errors.push(`${where}.arguments.matches: is not a valid regular expression`);
+    }
+  }
+  for (const name of Object.keys(args)) {
+    if (!(name in schema.arguments)) {
+      warnings.push(`${where}.arguments.${name}: not used by "${step.action}"`);
+    }
+  }
+
+  validateCommonStepFields(step, where, errors);
+}
+
+function validateCommonStepFields(
+  step: Record<string, any>,
+  where: string,
+  errors: string[]
+): void {
+  if ("description" in step && typeof step.description !== "string") {
+    errors.push(`${where}.description: must be a string`);
+  }
+  if ("waitAfter" in step && (typeof step.waitAfter !== "number" || step.waitAfter < 0)) {
+    errors.push(`${where}.waitAfter: must be a non-negative number`);
+  }
+  if ("saveAs" in step && (typeof step.saveAs !== "string" || !/^[A-Za-z_][A-Za-z0-9_]*$/.test(step.saveAs))) {
+    errors.push(`${where}.saveAs: must be a variable name`);
+  }
+  if ("onFailure" in step) {
+    if (typeof step.onFailure === "string" || (isObject(step.onFailure) && "action" in step.onFailure)) {
+      validatePolicyValue(step.onFailure, `${where}.onFailure`, errors);
+    } else if (isObject(step.onFailure)) {
+      validatePolicyBlock(step.onFailure, `${where}.onFailure`, errors);
+    } else {
+      errors.push(`${where}.onFailure: must be a policy name, a policy object or policies by failure reason`);
+    }
+  }
+}
+
+export function validateWorkflow(definition: any): WorkflowValidationResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  if (!isObject(definition)) {
+    return { valid: false, errors: ["Workflow must be a JSON object"], warnings };
+  }
+
+  if (typeof definition.name !== "string" || !definition.name.trim()) {
+    errors.push("name: must be a non-empty string");
+  }
+  if ("description" in definition && typeof definition.description !== "string") {
+    errors.push("description: must be a string");
+  }
+  if ("parameters" in definition) {
+    validateParameters(definition.parameters, errors);
+  }
+  if ("failurePolicy" in definition) {
+    validatePolicyBlock(definition.failurePolicy, "failurePolicy", errors);
+  }
+  for (const key of ["trace", "video", "har"]) {
+    if (key in definition && !RECORDING_MODES.includes(definition[key])) {
+      errors.push(`${key}: must be one of ${RECORDING_MODES.join(", ")}`);
+    }
+  }
+  if ("browser" in definition && !isBrowserEngine(definition.browser)) {
+    errors.push(`browser: must be one of ${BROWSER_ENGINES.join(", ")}`);
+  }
+  if ("headless" in definition && typeof definition.headless !== "boolean") {
+    errors.push("headless: must be a boolean");
+  }
+  if ("failOnPageError" in definition && typeof definition.failOnPageError !== "boolean") {
+    errors.push("failOnPageError: must be a boolean");
+  }
+  if ("useProfile" in definition && !profileStore.isValidName(definition.useProfile)) {
+    errors.push(`useProfile: must be a profile name (letters, digits, "-" and "_")`);
+  }
+  if ("routes" in definition) {
+    if (!Array.isArray(definition.routes)) {
+      errors.push("routes: must be an array of route rules");
+    } else {
+      definition.routes.forEach((rule: any, i: number) =>
+        errors.push(...validateRouteRule(rule, `routes[${i}]`))
+      );
+    }
+  }
+  if ("preconditions" in definition) {
+    const preconditions = definition.preconditions;
+    if (!isObject(preconditions)) {
+      errors.push("preconditions: must be an object");
+    } else if (
+      "randomValues" in preconditions &&
+      (!isObject(preconditions.randomValues) ||
+        Object.values(preconditions.randomValues).some((v) => typeof v !== "string"))
+    ) {
+      errors.push("preconditions.randomValues: must map names to template strings");
+    }
+  }
+
+  validateSteps(definition.steps, "steps", errors, warnings, false);
+
+  return { valid: errors.length === 0, errors, warnings };
+}
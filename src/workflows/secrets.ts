@@ -0,0 +1,121 @@
+import * as fs from "fs";
+import * as path from "path";
+import { isObject } from "../validation";
+
+const PLACEHOLDER_PATTERN = /\{\{\s*(env|secret):([A-Za-z0-9_.-]+)\s*\}\}/g;
+const MASK = "****";
+// Shorter values would mask every "1" or "on" in logs and results
+const MIN_MASKED_LENGTH = 4;
+
+class SecretStore {
+  private secrets: Record<string, string> = {};
+  private maskedValues: Set<string> = new Set();
+
+  private get secretsPath(): string {
+    return (
+      process.env.SECRETS_FILE ||
+      path.join(__dirname, "../../secrets.json")
+    );
+  }
+
+  // Re-read on every workflow run so edits to the file apply without a
+  // restart. Masks start over too, so values resolved by an earlier run are
+  // not masked forever.
+  load(): void {
+    const secretsPath = this.secretsPath;
+    this.maskedValues = new Set();
+    if (!fs.existsSync(secretsPath)) {
+      this.secrets = {};
+      return;
+    }
+
+    const parsed: unknown = JSON.parse(fs.readFileSync(secretsPath, "utf-8"));
+    if (!isObject(parsed)) {
+      throw new Error(`Secrets file ${secretsPath} must contain a JSON object`);
+    }
+
+    this.secrets = {};
+    for (const [name, value] of Object.entries(parsed)) {
+      this.secrets[name] = String(value);
+      this.addMaskedValue(String(value));
+    }
+  }
+
+  // Replaces {{env:NAME}} and {{secret:NAME}}. Secrets come from the secrets
+  // file first and the environment second. Env values are masked as well,
+  // since the environment holds the server's own credentials too.
+  resolve(text: string): string {
+    return text.replace(PLACEHOLDER_PATTERN, (_match, kind: string, name: string) => {
+      if (kind === "env") {
+        const value = process.env[name];
+        if (value === undefined) {
+          throw new Error(`Environment variable "${name}" is not set`);
+        }
+        this.addMaskedValue(value);
+        return value;
+      }
+
+      const value = this.secrets[name] ?? process.env[name];
+      if (value === undefined) {
+        throw new Error(`Secret "${name}" is not defined`);
+      }
+      this.addMaskedValue(value);
+      return value;
+    });
+  }
+
+  resolveDeep<T>(value: T): T {
+    if (typeof value === "string") {
+      return this.resolve(value) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.resolveDeep(item)) as unknown as T;
+    }
+    if (value && typeof value === "object") {
+      const resolved: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        resolved[key] = this.resolveDeep(item);
+      }
+      return resolved as unknown as T;
+    }
+    return value;
+  }
+
+  redact(text: string): string {
+    let redacted = text;
+    // Longest first, so a secret containing another is masked as a whole
+    const values = Array.from(this.maskedValues).sort((a, b) => b.length - a.length);
+    for (const value of values) {
+      redacted = redacted.split(value).join(MASK);
+    }
+    return redacted;
+  }
+
+  redactDeep<T>(value: T): T {
+    if (this.maskedValues.size === 0) {
+      return value;
+    }
+    if (typeof value === "string") {
+      return this.redact(value) as unknown as T;
+    }
+    if (Array.isArray(value)) {
+      return value.map((item) => this.redactDeep(item)) as unknown as T;
+    }
+    if (value && typeof value === "object") {
+      const redacted: Record<string, unknown> = {};
+      for (const [key, item] of Object.entries(value)) {
+        redacted[key] = this.redactDeep(item);
+      }
+      return redacted as unknown as T;
+    }
+    return value;
+  }
+
+  private addMaskedValue(value: string): void {
+    if (value.length >= MIN_MASKED_LENGTH) {
+      this.maskedValues.add(value);
+    }
+  }
+}
+
+export const secretStore = new SecretStore();
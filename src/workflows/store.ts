@@ -0,0 +1,89 @@
+import * as fs from "fs";
+import * as path from "path";
+import { WorkflowDefinition, WorkflowSummary } from "../types";
+
+// A workflow is stored as <name>.json, so the name may not contain a path
+const WORKFLOW_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+class WorkflowStore {
+  get directory(): string {
+    return process.env.WORKFLOWS_DIR || path.join(__dirname, "../../workflows");
+  }
+
+  isValidName(name: string): boolean {
+    return typeof name === "string" && WORKFLOW_NAME_PATTERN.test(name);
+  }
+
+  listNames(): string[] {
+    if (!fs.existsSync(this.directory)) {
+      return [];
+    }
+    return fs
+      .readdirSync(this.directory)
+      .filter((file) => file.endsWith(".json"))
+      .map((file) => file.slice(0, -".json".length))
+      .filter((name) => this.isValidName(name))
+      .sort();
+  }
+
+  list(): WorkflowSummary[] {
+    return this.listNames().map((name) => {
+      try {
+        const workflow = this.get(name);
+        return {
+          name,
+          title: workflow.name,
+          description: workflow.description,
+          parameters: Object.keys(workflow.parameters || {}),
+          steps: Array.isArray(workflow.steps) ? workflow.steps.length : 0,
+        };
+      } catch (error) {
+        const errorMessage = error instanceof Error ? error.message : String(error);
+        return { name, error: errorMessage };
+      }
+    });
+  }
+
+  exists(name: string): boolean {
+    return this.isValidName(name) && fs.existsSync(this.filePath(name));
+  }
+
+  get(name: string): WorkflowDefinition {
+    if (!this.exists(name)) {
+      throw new Error(
+        `Workflow "${name}" not found. Available workflows: ${this.listNames().join(", ") || "none"}`
+      );
+    }
+    return JSON.parse(fs.readFileSync(this.filePath(name), "utf-8"));
+  }
+
+  save(name: string, workflow: WorkflowDefinition): void {
+    this.assertValidName(name);
+    fs.mkdirSync(this.directory, { recursive: true });
+    fs.writeFileSync(this.filePath(name), `${JSON.stringify(workflow, null, 2)}\n`);
+    console.log(`[WORKFLOWS] Saved workflow ${name}`);
+  }
+
+  delete(name: string): boolean {
+    if (!this.exists(name)) {
+      return false;
+    }
+    fs.unlinkSync(this.filePath(name));
+    console.log(`[WORKFLOWS] Deleted workflow ${name}`);
+    return true;
+  }
+
+  filePath(name: string): string {
+    return path.join(this.directory, `${name}.json`);
+  }
+
+  private assertValidName(name: string): void {
+    if (!this.isValidName(name)) {
+      throw new Error(
+        `Invalid workflow name "${name}": use letters, digits, "-" and "_" only`
+      );
+    }
+  }
+}
+
+export const workflowStore = new WorkflowStore();
@@ -0,0 +1,89 @@
+import { WorkflowDefinition, WorkflowParameter } from "../types";
+
+// {name}, or {name.key.0.key} to reach into objects and arrays
+const VARIABLE_PATTERN = /\{([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*)\}/g;
+const WHOLE_VARIABLE_PATTERN = /^\{([A-Za-z_][A-Za-z0-9_]*(?:\.[A-Za-z0-9_]+)*)\}$/;
+
+export const PARAMETER_TYPES: WorkflowParameter["type"][] = ["string", "number", "boolean"];
+
+// Merges caller-supplied params with the workflow's declared defaults.
+export function resolveParameters(
+  workflow: WorkflowDefinition,
+  provided: Record<string, any> = {}
+): Record<string, any> {
+  const declared = workflow.parameters || {};
+  const resolved: Record<string, any> = {};
+
+  for (const name of Object.keys(provided)) {
+    if (!(name in declared)) {
+      const known = Object.keys(declared);
+      throw new Error(
+        `Unknown workflow parameter "${name}". Declared parameters: ${known.join(", ") || "none"}`
+      );
+    }
+  }
+
+  for (const [name, spec] of Object.entries(declared)) {
+    const value = name in provided ? provided[name] : spec.default;
+    if (value === undefined) {
+      if (spec.required) {
+        throw new Error(`Missing required workflow parameter "${name}"`);
+      }
+      continue;
+    }
+    if (typeof value !== spec.type) {
+      throw new Error(
+        `Workflow parameter "${name}" must be of type "${spec.type}", got "${typeof value}"`
+      );
+    }
+    resolved[name] = value;
+  }
+
+  return resolved;
+}
+
+function lookup(variables: Record<string, any>, path: string): { found: boolean; value?: any } {
+  let value: any = variables;
+  for (const key of path.split(".")) {
+    if (value === null || typeof value !== "object" || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return { found: false };
+    }
+    value = value[key];
+  }
+  return { found: true, value };
+}
+
+// Replaces {name} placeholders in every string, however deeply nested. A
+// string that is exactly one placeholder takes the variable's own type, so
+// "timeout": "{TIMEOUT}" yields a number. Unknown names are left untouched.
+export function substituteVariables<T>(value: T, variables: Record<string, any>): T {
+  if (typeof value === "string") {
+    const whole = value.match(WHOLE_VARIABLE_PATTERN);
+    if (whole) {
+      const variable = lookup(variables, whole[1]);
+      if (variable.found) {
+        return variable.value;
+      }
+    }
+    return value.replace(VARIABLE_PATTERN, (match, name: string) => {
+      const variable = lookup(variables, name);
+      if (!variable.found) {
+        return match;
+      }
+      return typeof variable.value === "object" && variable.value !== null
+        ? JSON.stringify(variable.value)
+        : String(variable.value);
+    }) as any;
+  }
+  if (Array.isArray(value)) {
+    return value.map((item) => substituteVariables(item, variables)) as any;
+  }
+  if (value && typeof value === "object") {
+    const substituted: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      substituted[key] = substituteVariables(item, variables);
+    }
+    return substituted as T;
+  }
+  return value;
+}
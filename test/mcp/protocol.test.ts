@@ -0,0 +1,105 @@
+import { strict as assert } from "assert";
+import { afterEach, beforeEach, describe, it, mock } from "node:test";
+import { JSON_RPC_ERRORS, LATEST_PROTOCOL_VERSION, McpProtocolHandler } from "../../src/mcp/protocol";
+import { toolExecutor } from "../../src/mcp/tools";
+import { McpSession } from "../../src/types";
+
+describe("McpProtocolHandler", () => {
+  let handler: McpProtocolHandler;
+  let session: McpSession;
+
+  beforeEach(() => {
+    handler = new McpProtocolHandler();
+    session = handler.createSession("s1");
+    handler.registerSession(session);
+  });
+
+  afterEach(() => {
+    mock.restoreAll();
+  });
+
+  function request(method: string, params?: Record<string, any>, id: number = 1): Record<string, any> {
+    return { jsonrpc: "2.0", id, method, ...(params && { params }) };
+  }
+
+  it("negotiates the protocol version on initialize", async () => {
+    const response = await handler.handleMessage(
+      request("initialize", { protocolVersion: "1999-01-01", clientInfo: { name: "test" } }),
+      session
+    );
+    assert.equal(response?.result.protocolVersion, LATEST_PROTOCOL_VERSION);
+    assert.deepEqual(session.clientInfo, { name: "test" });
+
+    const initialized = await handler.handleMessage(
+      { jsonrpc: "2.0", method: "notifications/initialized" },
+      session
+    );
+    assert.equal(initialized, null);
+    assert.equal(session.initialized, true);
+  });
+
+  it("requires a protocol version on initialize", async () => {
+    const response = await handler.handleMessage(request("initialize", {}), session);
+    assert.equal(response?.error?.code, JSON_RPC_ERRORS.INVALID_PARAMS);
+  });
+
+  it("answers ping and lists tools", async () => {
+    assert.deepEqual(await handler.handleMessage(request("ping", undefined, 7), session), {
+      jsonrpc: "2.0",
+      id: 7,
+      result: {},
+    });
+    const response = await handler.handleMessage(request("tools/list"), session);
+    assert.ok(response?.result.tools.some((tool: any) => tool.name === "open_page"));
+  });
+
+  it("rejects malformed messages and unknown methods", async () => {
+    const invalid = await handler.handleMessage({ id: 1, method: "ping" }, session);
+    assert.equal(invalid?.error?.code, JSON_RPC_ERRORS.INVALID_REQUEST);
+
+    const unknown = await handler.handleMessage(request("resources/list"), session);
+    assert.equal(unknown?.error?.code, JSON_RPC_ERRORS.METHOD_NOT_FOUND);
+  });
+
+  it("does not reply to notifications or client responses", async () => {
+    assert.equal(await handler.handleMessage({ jsonrpc: "2.0", method: "notifications/unknown" }, session), null);
+    assert.equal(await handler.handleMessage({ jsonrpc: "2.0", id: 3, result: {} }, session), null);
+  });
+
+  it("rejects calls to unknown tools", async () => {
+    const response = await handler.handleMessage(request("tools/call", { name: "fly" }), session);
+    assert.equal(response?.error?.code, JSON_RPC_ERRORS.INVALID_PARAMS);
+    assert.equal(response?.error?.message, "Unknown tool: fly");
+  });
+
+  it("gives each MCP session a browser session of its own", async () => {
+    const execute = mock.method(toolExecutor, "execute", async (call: any) => ({
+      success: true,
+      data: { url: "https://example.com" },
+      sessionId: call.sessionId,
+    }));
+    const other = handler.createSession("s2");
+    handler.registerSession(other);
+
+    await handler.handleMessage(request("tools/call", { name: "open_page", arguments: { url: "https://example.com" } }), session);
+    await handler.handleMessage(request("tools/call", { name: "click", arguments: { selector: "#go" } }), session);
+    await handler.handleMessage(request("tools/call", { name: "click", arguments: { selector: "#go" } }), other);
+
+    const sessionIds = execute.mock.calls.map((call) => call.arguments[0].sessionId);
+    assert.deepEqual(sessionIds, ["mcp_s1", "mcp_s1", "mcp_s2"]);
+    assert.equal(session.browserSessionId, "mcp_s1");
+  });
+
+  it("turns tool failures into error results", async () => {
+    mock.method(toolExecutor, "execute", async (call: any) => ({
+      success: false,
+      error: "Element not found",
+      sessionId: call.sessionId,
+    }));
+    const response = await handler.handleMessage(request("tools/call", { name: "click", arguments: { selector: "#go" } }), session);
+    assert.deepEqual(response?.result, {
+      content: [{ type: "text", text: "Element not found" }],
+      isError: true,
+    });
+  });
+});
@@ -0,0 +1,100 @@
+import { strict as assert } from "assert";
+import { describe, it } from "node:test";
+import { validateWorkflow } from "../../src/workflows/schema";
+
+function workflow(steps: any[], extra: Record<string, any> = {}): Record<string, any> {
+  return { name: "test", steps, ...extra };
+}
+
+describe("validateWorkflow", () => {
+  it("accepts a minimal workflow", () => {
+    const result = validateWorkflow(
+      workflow([{ action: "open_page", arguments: { url: "https://example.com" } }])
+    );
+    assert.deepEqual(result, { valid: true, errors: [], warnings: [] });
+  });
+
+  it("rejects anything but an object", () => {
+    for (const definition of [null, "workflow", 42, []]) {
+      assert.deepEqual(validateWorkflow(definition).errors, ["Workflow must be a JSON object"]);
+    }
+  });
+
+  it("requires a name and at least one step", () => {
+    const result = validateWorkflow({ steps: [] });
+    assert.equal(result.valid, false);
+    assert.deepEqual(result.errors, [
+      "name: must be a non-empty string",
+      "steps: must be a non-empty array of steps",
+    ]);
+  });
+
+  it("reports unknown actions and missing arguments with their path", () => {
+    const result = validateWorkflow(workflow([{ action: "fly" }, { action: "click" }]));
+    assert.equal(result.errors.length, 2);
+    assert.match(result.errors[0], /^steps\[0\]\.action: unknown action "fly"/);
+    assert.equal(result.errors[1], 'steps[1].arguments.selector: is required for "click"');
+  });
+
+  it("reports argument type mismatches", () => {
+    const result = validateWorkflow(workflow([{ action: "click", arguments: { selector: 5 } }]));
+    assert.deepEqual(result.errors, [
+      'steps[0].arguments.selector: must be of type "string", got "number"',
+    ]);
+  });
+
+  it("accepts placeholders where another type is expected", () => {
+    const result = validateWorkflow(
+      workflow([{ action: "open_page", arguments: { url: "{url}", timeout: "{timeout}" } }])
+    );
+    assert.deepEqual(result.errors, []);
+  });
+
+  it("validates steps nested in control actions", () => {
+    const result = validateWorkflow(
+      workflow([{ action: "repeat", times: 2, steps: [{ action: "click", arguments: {} }] }])
+    );
+    assert.deepEqual(result.errors, [
+      'steps[0].steps[0].arguments.selector: is required for "click"',
+    ]);
+  });
+
+  it("accepts failure policies as a name, an object or by reason", () => {
+    const step = { action: "click", arguments: { selector: "#go" } };
+    const result = validateWorkflow(
+      workflow([
+        { ...step, onFailure: "SKIP" },
+        { ...step, onFailure: { action: "RETRY", maxRetries: 2 } },
+        { ...step, onFailure: { onTimeout: "RETRY", onError: "STOP_AND_FAIL" } },
+      ])
+    );
+    assert.deepEqual(result.errors, []);
+  });
+
+  it("rejects unknown failure policies", () => {
+    const result = validateWorkflow(
+      workflow([{ action: "click", arguments: { selector: "#go" }, onFailure: "IGNORE" }])
+    );
+    assert.deepEqual(result.errors, ['steps[0].onFailure: unknown policy "IGNORE"']);
+  });
+
+  it("rejects primitive onFailure values without throwing", () => {
+    for (const onFailure of [42, true, null]) {
+      const result = validateWorkflow(
+        workflow([{ action: "click", arguments: { selector: "#go" }, onFailure }])
+      );
+      assert.deepEqual(result.errors, [
+        "steps[0].onFailure: must be a policy name, a policy object or policies by failure reason",
+      ]);
+    }
+  });
+
+  it("rejects unknown recording modes and engines", () => {
+    const result = validateWorkflow(
+      workflow([{ action: "click", arguments: { selector: "#go" } }], { trace: "always", browser: "edge" })
+    );
+    assert.equal(result.errors.length, 2);
+    assert.match(result.errors[0], /^trace: must be one of /);
+    assert.match(result.errors[1], /^browser: must be one of /);
+  });
+});
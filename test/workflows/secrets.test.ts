@@ -0,0 +1,89 @@
+import { strict as assert } from "assert";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { secretStore } from "../../src/workflows/secrets";
+
+describe("secretStore", () => {
+  let directory: string;
+
+  function writeSecrets(secrets: unknown): void {
+    fs.writeFileSync(process.env.SECRETS_FILE!, JSON.stringify(secrets));
+  }
+
+  before(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), "secrets-test-"));
+    process.env.SECRETS_FILE = path.join(directory, "secrets.json");
+    process.env.SECRETS_TEST_TOKEN = "env-token-value";
+  });
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    delete process.env.SECRETS_FILE;
+    delete process.env.SECRETS_TEST_TOKEN;
+  });
+
+  beforeEach(() => {
+    writeSecrets({ password: "hunter2!", pin: "42" });
+    secretStore.load();
+  });
+
+  it("resolves secrets from the file and the environment", () => {
+    assert.equal(secretStore.resolve("{{secret:password}}"), "hunter2!");
+    assert.equal(secretStore.resolve("{{ secret:SECRETS_TEST_TOKEN }}"), "env-token-value");
+    assert.equal(secretStore.resolve("Bearer {{env:SECRETS_TEST_TOKEN}}"), "Bearer env-token-value");
+  });
+
+  it("throws for undefined secrets and unset variables", () => {
+    assert.throws(() => secretStore.resolve("{{secret:missing}}"), /Secret "missing" is not defined/);
+    assert.throws(() => secretStore.resolve("{{env:SECRETS_TEST_UNSET}}"), /Environment variable "SECRETS_TEST_UNSET" is not set/);
+  });
+
+  it("resolves nested arguments and leaves other values alone", () => {
+    const resolved = secretStore.resolveDeep({
+      selector: "#password",
+      text: "{{secret:password}}",
+      headers: [{ value: "{{env:SECRETS_TEST_TOKEN}}" }],
+      timeout: 500,
+    });
+    assert.deepEqual(resolved, {
+      selector: "#password",
+      text: "hunter2!",
+      headers: [{ value: "env-token-value" }],
+      timeout: 500,
+    });
+  });
+
+  it("masks secret values, but not values too short to mask", () => {
+    assert.equal(secretStore.redact("typed hunter2! and 42"), "typed **** and 42");
+    assert.deepEqual(secretStore.redactDeep({ log: ["hunter2!"], count: 42 }), {
+      log: ["****"],
+      count: 42,
+    });
+  });
+
+  it("masks environment values once they have been resolved", () => {
+    assert.equal(secretStore.redact("env-token-value"), "env-token-value");
+    secretStore.resolve("{{env:SECRETS_TEST_TOKEN}}");
+    assert.equal(secretStore.redact("token env-token-value"), "token ****");
+  });
+
+  it("masks a secret containing another one as a whole", () => {
+    writeSecrets({ short: "abcd", long: "abcdefgh" });
+    secretStore.load();
+    assert.equal(secretStore.redact("abcdefgh"), "****");
+  });
+
+  it("starts over with masks on every load", () => {
+    secretStore.resolve("{{env:SECRETS_TEST_TOKEN}}");
+    writeSecrets({});
+    secretStore.load();
+    assert.equal(secretStore.redact("hunter2! env-token-value"), "hunter2! env-token-value");
+  });
+
+  it("rejects a secrets file that is not an object", () => {
+    writeSecrets(["hunter2!"]);
+    assert.throws(() => secretStore.load(), /must contain a JSON object/);
+  });
+});